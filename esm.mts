@@ -14,6 +14,16 @@ export const {
 	Argument,
 	Option,
 	Help,
+	ManFormatter,
+	MarkdownFormatter,
+	//
+	intParser,
+	floatParser,
+	booleanParser,
+	durationParser,
+	bytesParser,
+	urlParser,
+	dateParser,
 	//
 	/** @deprecated */
 	InvalidOptionArgumentError, // deprecated old name
@@ -2,7 +2,18 @@ import { Argument } from "./lib/argument";
 import { Command } from "./lib/command";
 import { CommanderError, InvalidArgumentError } from "./lib/error";
 import { Help } from "./lib/help";
+import { ManFormatter } from "./lib/man";
+import { MarkdownFormatter } from "./lib/markdown";
 import { Option } from "./lib/option";
+import {
+	booleanParser,
+	bytesParser,
+	dateParser,
+	durationParser,
+	floatParser,
+	intParser,
+	urlParser,
+} from "./lib/parsers";
 
 const program = new Command();
 const createArgument = (name: string, description?: string) =>
@@ -22,10 +33,20 @@ export {
 	Option,
 	Argument,
 	Help,
+	ManFormatter,
+	MarkdownFormatter,
 	//
 	CommanderError,
 	InvalidArgumentError,
 	//
+	intParser,
+	floatParser,
+	booleanParser,
+	durationParser,
+	bytesParser,
+	urlParser,
+	dateParser,
+	//
 	/** @deprecated */
 	InvalidArgumentError as InvalidOptionArgumentError,
 };
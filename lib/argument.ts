@@ -1,4 +1,19 @@
+import type {
+	NumberParserOptions,
+	StandardSchemaV1,
+	UrlParserOptions,
+} from "../typings";
+import type { CompletionFn } from "./completion";
 import { InvalidArgumentError } from "./error.js";
+import {
+	booleanParser,
+	bytesParser,
+	dateParser,
+	durationParser,
+	floatParser,
+	intParser,
+	urlParser,
+} from "./parsers.js";
 
 type ParseArgFunc<T = undefined | unknown> = (value: string, previous: T) => T;
 class Argument<
@@ -15,7 +30,10 @@ class Argument<
 
 	defaultValue?: unknown = undefined;
 	defaultValueDescription?: string = undefined;
+	envVar?: string = undefined;
 	argChoices?: string[] = undefined;
+	completer?: CompletionFn = undefined;
+	valueSchema?: StandardSchemaV1 = undefined;
 
 	#name: string;
 
@@ -58,7 +76,20 @@ class Argument<
 		return this.#name;
 	}
 
-	#concatValue(value: string, previous: string | string[]) {
+	/**
+	 * Set environment variable to check for argument value.
+	 *
+	 * The environment variable is used when the argument is missing from the command line,
+	 * before falling back to the default value.
+	 *
+	 * @param name
+	 */
+	env(name: string): this {
+		this.envVar = name;
+		return this;
+	}
+
+	#concatValue<T>(value: T, previous: T | T[]): T[] {
 		if (previous === this.defaultValue || !Array.isArray(previous)) {
 			return [value];
 		}
@@ -110,6 +141,107 @@ class Argument<
 		return this;
 	}
 
+	/**
+	 * Parse the value as an integer, optionally within a range.
+	 *
+	 * @example
+	 * new Argument('<port>').int({ min: 1, max: 65535 });
+	 */
+	int(
+		options?: NumberParserOptions,
+	): Argument<Usage, DefaultT, number, ArgRequired, undefined> {
+		return this.#typedParser(intParser(options));
+	}
+
+	/**
+	 * Parse the value as a number, optionally within a range.
+	 */
+	float(
+		options?: NumberParserOptions,
+	): Argument<Usage, DefaultT, number, ArgRequired, undefined> {
+		return this.#typedParser(floatParser(options));
+	}
+
+	/**
+	 * Parse the value as a boolean, accepting true/false, yes/no, on/off, and 1/0 ignoring case.
+	 */
+	boolean(): Argument<Usage, DefaultT, boolean, ArgRequired, undefined> {
+		return this.#typedParser(booleanParser());
+	}
+
+	/**
+	 * Parse the value as a duration like `500ms`, `30s`, or `1h30m`, in milliseconds.
+	 */
+	duration(
+		options?: NumberParserOptions,
+	): Argument<Usage, DefaultT, number, ArgRequired, undefined> {
+		return this.#typedParser(durationParser(options));
+	}
+
+	/**
+	 * Parse the value as a size like `512`, `10KB`, or `1.5GiB`, in bytes.
+	 */
+	bytes(
+		options?: NumberParserOptions,
+	): Argument<Usage, DefaultT, number, ArgRequired, undefined> {
+		return this.#typedParser(bytesParser(options));
+	}
+
+	/**
+	 * Parse the value as a URL, optionally restricting the protocols.
+	 *
+	 * @example
+	 * new Argument('<url>').url({ protocols: ['https:'] });
+	 */
+	url(
+		options?: UrlParserOptions,
+	): Argument<Usage, DefaultT, URL, ArgRequired, undefined> {
+		return this.#typedParser(urlParser(options));
+	}
+
+	/**
+	 * Parse the value as a date, like `2024-01-31`.
+	 */
+	date(): Argument<Usage, DefaultT, Date, ArgRequired, undefined> {
+		return this.#typedParser(dateParser());
+	}
+
+	/**
+	 * Use the built-in parser for the value, collecting the values when variadic.
+	 */
+	#typedParser<T>(parse: (value: string) => T) {
+		return this.argParser<T | T[]>((arg, previous) => {
+			const value = parse(arg);
+			if (this.variadic) {
+				return this.#concatValue(value, previous);
+			}
+			return value;
+		});
+	}
+
+	/**
+	 * Validate the value using a Standard Schema validator, like those from Zod, Valibot, and ArkType.
+	 * The validator is called after any custom processing, and the issues are reported as an invalid value.
+	 *
+	 * @example
+	 * new Argument('<email>').schema(z.string().email());
+	 */
+	schema<T>(
+		schema: StandardSchemaV1<unknown, T>,
+	): Argument<Usage, DefaultT, T, ArgRequired, undefined> {
+		this.valueSchema = schema;
+		return this;
+	}
+
+	/**
+	 * Set the callback for computing candidate argument values when completing a command line,
+	 * such as branch names or file paths. Used instead of the choices, if any.
+	 */
+	complete(fn: CompletionFn): this {
+		this.completer = fn;
+		return this;
+	}
+
 	/**
 	 * Make argument required.
 	 */
@@ -1,14 +1,22 @@
 import childProcess from "node:child_process";
 import { EventEmitter } from "node:events";
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import process from "node:process";
+import readline from "node:readline";
 
 import type {
 	AddHelpTextContext,
 	AddHelpTextPosition,
+	BooleanValues,
+	CommandDescription,
 	CommandOptions,
 	CommandUnknownOpts,
+	ConfigDiscoveryOptions,
+	ConfigFileOptions,
+	ConfigFormatParser,
+	DescribeOptions,
 	ExecutableCommandOptions,
 	HelpConfiguration,
 	HelpContext,
@@ -20,13 +28,33 @@ import type {
 	InferCommmandArguments,
 	InferArgument,
 	InferOptions,
+	ManPage,
+	ManPageOptions,
+	MarkdownOptions,
+	MarkdownPage,
 	ParseOptions,
+	ParseResult,
+	ReplOptions,
+	StandardSchemaV1,
 } from "../typings/index";
 import { Argument, humanReadableArgName } from "./argument";
-import { CommanderError } from "./error";
+import {
+	type CompletionShell,
+	completionScript,
+	completionShells,
+	dynamicCompletionFlag,
+} from "./completion";
+import { describeCommand } from "./describe";
+import { CommanderError, InvalidArgumentError } from "./error";
 import { Help } from "./help";
+import { ManFormatter } from "./man";
+import { MarkdownFormatter } from "./markdown";
 import { DualOptions, Option } from "./option";
+import { booleanParser } from "./parsers";
+import { readInput } from "./prompt";
+import { formatIssue, validateSchema, validateSchemaValue } from "./schema";
 import { suggestSimilar } from "./suggestSimilar";
+import { tokenizeArgs } from "./tokenize";
 
 class Command<
 	Args extends unknown[] = [],
@@ -62,6 +90,24 @@ class Command<
 	_argsDescription?: Record<string, string> = undefined;
 	_enablePositionalOptions = false;
 	_passThroughOptions = false;
+	_dynamicCompletion = false;
+	#configFile: string | ((command: Command) => string | undefined) | undefined =
+		undefined;
+	#configFormats: Record<string, ConfigFormatParser> = {};
+	#configDiscovery: (ConfigDiscoveryOptions & { name: string }) | undefined =
+		undefined;
+	#config: ConfigLayer[] = [];
+	#optionValueConfigFiles: Record<string, string> = {};
+	#parseOnly: { command: Command; errors: CommanderError[] } | undefined =
+		undefined;
+	#parsingSync = false;
+	#savedState:
+		| {
+				name: string;
+				optionValues: OptionValues;
+				optionValueSources: Record<string, string | undefined>;
+		  }
+		| undefined = undefined;
 	_lifeCycleHooks = {
 		postAction: null,
 		preAction: null,
@@ -69,6 +115,28 @@ class Command<
 	};
 	#showHelpAfterError: string | boolean = false;
 	#showSuggestionAfterError = true;
+	#aggregateErrors = false;
+	#collectedErrors: CommanderError[] | undefined = undefined;
+	#inRepl = false;
+	#promptForMissing = false;
+	#envBooleans?: BooleanValues;
+	#responseFilePrefix: string | undefined = undefined;
+	#envPrefix: string | undefined = undefined;
+	#valueFileOptions = new Set<Option>(); // The companion options added for Option.fromFile().
+	#optsSchema: StandardSchemaV1 | undefined = undefined;
+	// The options to validate using Option.schema() after parsing, with the message for an invalid value.
+	#valueSchemaChecks = new Map<
+		Option,
+		{ schema: StandardSchemaV1; invalidValueMessage: string }
+	>();
+	#helpGroupHeading: string | undefined = undefined;
+	#defaultOptionGroup: string | undefined = undefined;
+	#defaultCommandGroup: string | undefined = undefined;
+	#optionConstraints: Array<{
+		names: string[];
+		exclusive: boolean;
+		required: boolean;
+	}> = [];
 
 	#outputConfiguration = {
 		writeOut: (str: string) => process.stdout.write(str),
@@ -120,6 +188,9 @@ class Command<
 		this._enablePositionalOptions = sourceCommand._enablePositionalOptions;
 		this.#showHelpAfterError = sourceCommand.#showHelpAfterError;
 		this.#showSuggestionAfterError = sourceCommand.#showSuggestionAfterError;
+		this.#aggregateErrors = sourceCommand.#aggregateErrors;
+		this.#promptForMissing = sourceCommand.#promptForMissing;
+		this.#envBooleans = sourceCommand.#envBooleans;
 
 		return this;
 	}
@@ -294,6 +365,48 @@ class Command<
 		return this;
 	}
 
+	/**
+	 * Report all the problems found when checking the options and arguments together in a single error,
+	 * rather than stopping at the first problem. The individual errors are available in the `errors` property of the `CommanderError`.
+	 *
+	 * @return `this` command for chaining
+	 */
+	aggregateErrors(aggregate = true): this {
+		this.#aggregateErrors = !!aggregate;
+		return this;
+	}
+
+	/**
+	 * Prompt for the value of missing mandatory options and required command-arguments when the input is interactive,
+	 * rather than displaying an error. The choices are displayed as a numbered list, and sensitive option values are not echoed.
+	 *
+	 * Prompting is asynchronous, so use `.parseAsync()`.
+	 *
+	 * @return `this` command for chaining
+	 */
+	promptForMissing(prompt = true): this {
+		this.#promptForMissing = !!prompt;
+		return this;
+	}
+
+	/**
+	 * Parse environment variables for boolean options as true or false values, rather than
+	 * treating any value as true. By default accepts 1/true/yes/on and 0/false/no/off ignoring case,
+	 * or supply the accepted values. An unrecognised value is an error.
+	 *
+	 * A false value from the environment variable sets `false` for a boolean option, and `true` for a negated option.
+	 *
+	 * @return `this` command for chaining
+	 */
+	envBooleans(values: BooleanValues | boolean = true): this {
+		if (values === true) {
+			this.#envBooleans = {};
+		} else {
+			this.#envBooleans = values || undefined;
+		}
+		return this;
+	}
+
 	/**
 	 * Add a prepared subcommand.
 	 *
@@ -564,11 +677,28 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 * @param {string} message human-readable description of the error
 	 * @return never
 	 */
-	#exit(exitCode: number, code: string, message: string) {
+	#exit(
+		exitCode: number,
+		code: string,
+		message: string,
+		errors?: CommanderError[],
+	) {
+		const makeError = () => {
+			const err = new CommanderError(exitCode, code, message);
+			if (errors) err.errors = errors;
+			return err;
+		};
+		if (this.#getParseOnly()) {
+			throw makeError();
+		}
 		if (this.#exitCallback) {
-			this.#exitCallback(new CommanderError(exitCode, code, message));
+			this.#exitCallback(makeError());
 			// Expecting this line is not reached.
 		}
+		// The REPL continues after an error, so throw rather than exit the process.
+		if (this.#getCommandAndAncestors().some((cmd) => cmd.#inRepl)) {
+			throw makeError();
+		}
 		process.exit(exitCode);
 	}
 
@@ -633,12 +763,37 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		previous: unknown,
 		invalidArgumentMessage: string,
 	) {
+		return this.#callValueHandler(
+			() => target.parseArg(value, previous),
+			invalidArgumentMessage,
+		);
+	}
+
+	/**
+	 * Validate the value using the schema for an option or argument, and return the output value.
+	 */
+	#callValueSchema(
+		schema: StandardSchemaV1,
+		value: unknown,
+		invalidArgumentMessage: string,
+	) {
+		return this.#callValueHandler(
+			() => validateSchemaValue(schema, value),
+			invalidArgumentMessage,
+		);
+	}
+
+	/**
+	 * Call the value handler, and report an InvalidArgumentError using the message for the option or argument.
+	 */
+	#callValueHandler(handler: () => unknown, invalidArgumentMessage: string) {
 		try {
-			return target.parseArg(value, previous);
+			return handler();
 		} catch (err) {
 			if (err.code === "commander.invalidArgument") {
 				const message = `${invalidArgumentMessage} ${err.message}`;
 				this.error(message, { exitCode: err.exitCode, code: err.code });
+				return undefined; // only reached when collecting errors
 			}
 			throw err;
 		}
@@ -649,6 +804,9 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 * Register option if no conflicts found, or throw on conflict.
 	 */
 	#registerOption(option: Option) {
+		if (this.#defaultOptionGroup && !option.helpGroupHeading) {
+			option.helpGroup(this.#defaultOptionGroup);
+		}
 		const matchingOption =
 			(option.short && this._findOption(option.short)) ||
 			(option.long && this._findOption(option.long));
@@ -673,6 +831,9 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 */
 
 	#registerCommand(command: Command) {
+		if (this.#defaultCommandGroup && !command.#helpGroupHeading) {
+			command.#helpGroupHeading = this.#defaultCommandGroup;
+		}
 		const knownBy = (cmd) => {
 			return [cmd.name()].concat(cmd.aliases());
 		};
@@ -717,17 +878,41 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		} else if (option.defaultValue !== undefined) {
 			this.setOptionValueWithSource(name, option.defaultValue, "default");
 		}
+		this.#saveOptionState(name);
 
 		// handler for cli and env supplied values
 		const handleOptionValue = (val, invalidValueMessage, valueSource) => {
+			const errorCount = this.#getCollectedErrors()?.length;
 			// val is null for optional option used without an optional-argument.
 			// val is undefined for boolean and negated option.
 			if (val == null && option.presetArg !== undefined) {
 				val = option.presetArg;
 			}
 
+			// read the value from a file, like `--data @body.json`
+			const prefix = option.fileValuePrefix;
+			if (
+				prefix &&
+				valueSource === "cli" &&
+				typeof val === "string" &&
+				val.startsWith(prefix)
+			) {
+				const file = val.slice(prefix.length);
+				val = this.#callValueHandler(
+					() => readValueFile(file),
+					invalidValueMessage,
+				);
+				if (val === undefined) return; // only reached when collecting errors
+			}
+
 			// custom processing
-			const oldValue = this.getOptionValue(name);
+			// An env value replaces a value from config (or the default), rather than adding to it.
+			const replacePrevious =
+				valueSource === "env" &&
+				["default", "config"].includes(this.getOptionValueSource(name));
+			const oldValue = replacePrevious
+				? option.defaultValue
+				: this.getOptionValue(name);
 			if (val !== null && option.parseArg) {
 				val = this.#callParseArg(option, val, oldValue, invalidValueMessage);
 			} else if (val !== null && option.variadic) {
@@ -737,31 +922,106 @@ Expecting one of '${allowedValues.join("', '")}'`);
 			// Fill-in appropriate missing values. Long winded but easy to follow.
 			if (val == null) {
 				if (option.negate) {
-					val = false;
+					// A negated option resets a matching counting option, like --no-verbose.
+					const positiveOption = this.options.find(
+						(target) => !target.negate && target.attributeName() === name,
+					);
+					val = positiveOption?.counting ? 0 : false;
 				} else if (option.isBoolean() || option.optional) {
 					val = true;
 				} else {
 					val = ""; // not normal, parseArg might have failed or be a mock function for testing
 				}
 			}
+			// Validate once after parsing, so a value collected from repeated options is only validated once.
+			// Skip if already reported invalid by the custom processing.
+			if (option.valueSchema) {
+				if (this.#getCollectedErrors()?.length === errorCount) {
+					this.#valueSchemaChecks.set(option, {
+						schema: option.valueSchema,
+						invalidValueMessage,
+					});
+				} else {
+					this.#valueSchemaChecks.delete(option);
+				}
+			}
 			this.setOptionValueWithSource(name, val, valueSource);
 		};
 
 		this.on("option:" + oname, (val) => {
-			const invalidValueMessage = `error: option '${option.flags}' argument '${val}' is invalid.`;
+			const invalidValueMessage = `error: option '${option.flags}' argument '${option.maskValue(val)}' is invalid.`;
 			handleOptionValue(val, invalidValueMessage, "cli");
 		});
 
-		if (option.envVar) {
-			this.on("optionEnv:" + oname, (val) => {
-				const invalidValueMessage = `error: option '${option.flags}' value '${val}' from env '${option.envVar}' is invalid.`;
-				handleOptionValue(val, invalidValueMessage, "env");
-			});
+		this.on("optionConfig:" + oname, (val, file) => {
+			// config values may be numbers et al, but parseArg expects strings like from cli and env
+			// (except an object for a map option, which is like repeating the option with each pair)
+			const mapObject = option.isMap() && isConfigObject(val);
+			const displayValue = mapObject ? JSON.stringify(val) : val;
+			const invalidValueMessage = `error: option '${option.flags}' value '${option.maskValue(displayValue)}' from config '${file}' is invalid.`;
+			const keepValue = val == null || mapObject;
+			handleOptionValue(
+				option.parseArg && !keepValue ? String(val) : val,
+				invalidValueMessage,
+				"config",
+			);
+		});
+
+		this.on("optionPrompt:" + oname, (val) => {
+			const invalidValueMessage = `error: option '${option.flags}' argument '${option.maskValue(val)}' is invalid.`;
+			handleOptionValue(val, invalidValueMessage, "prompt");
+		});
+
+		// Always listen, as the environment variable may come from .envPrefix().
+		this.on("optionEnv:" + oname, (val) => {
+			const invalidValueMessage = `error: option '${option.flags}' value '${option.maskValue(val)}' from env '${this.#getOptionEnvVar(option)}' is invalid.`;
+			if (
+				val !== undefined &&
+				!option.required &&
+				!option.optional &&
+				!option.counting
+			) {
+				// boolean value from .envBooleans()
+				const enabled = this.#callValueHandler(
+					() => booleanParser(this.#envBooleans)(val),
+					invalidValueMessage,
+				);
+				if (enabled === undefined) return;
+				// false turns off the option, which is true for a negated option
+				val = enabled ? undefined : option.negate;
+			}
+			handleOptionValue(val, invalidValueMessage, "env");
+		});
+
+		if (option.fileFlags) {
+			this.#addValueFileOption(option, option.fileFlags);
 		}
 
 		return this;
 	}
 
+	/**
+	 * Add the companion option to read the option value from a file, or from stdin for `-`.
+	 */
+	#addValueFileOption(option: Option, fileFlags: string) {
+		const fileOption = new Option(
+			fileFlags,
+			`read value for ${option.long ?? option.short} from file, or - for stdin`,
+		);
+		fileOption.hidden = option.hidden;
+		fileOption.helpGroupHeading = option.helpGroupHeading;
+		this.addOption(fileOption);
+		this.#valueFileOptions.add(fileOption);
+
+		this.on(`option:${fileOption.name()}`, (file: string) => {
+			const value = this.#callValueHandler(
+				() => readValueFile(file),
+				`error: option '${fileOption.flags}' argument '${file}' is invalid.`,
+			);
+			if (value !== undefined) this.emit(`option:${option.name()}`, value);
+		});
+	}
+
 	/**
 	 * Internal implementation shared by .option() and .requiredOption()
 	 *
@@ -859,6 +1119,44 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		);
 	}
 
+	/**
+	 * Only allow one of the options to be used, and optionally require one of them.
+	 * The names are the option attribute names, like for `Option.conflicts()`.
+	 * The group is shown in the usage as `[--file | --url]`, or `(--file | --url)` when required.
+	 *
+	 * @example
+	 * program.exclusiveOptions(['file', 'url', 'stdin'], { required: true });
+	 *
+	 * @return `this` command for chaining
+	 */
+	exclusiveOptions(
+		names: string[],
+		options: { required?: boolean } = {},
+	): this {
+		this.#optionConstraints.push({
+			names: names.slice(),
+			exclusive: true,
+			required: !!options.required,
+		});
+		return this;
+	}
+
+	/**
+	 * Require at least one of the options to be used.
+	 * The names are the option attribute names, like for `Option.conflicts()`.
+	 * The group is shown in the usage as `(--file | --url)`.
+	 *
+	 * @return `this` command for chaining
+	 */
+	requireOneOf(names: string[]): this {
+		this.#optionConstraints.push({
+			names: names.slice(),
+			exclusive: false,
+			required: true,
+		});
+		return this;
+	}
+
 	/**
 	 * Alter parsing of short flags with optional values.
 	 *
@@ -925,6 +1223,155 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		return this;
 	}
 
+	/**
+	 * Expand response file arguments like `@args.txt` into the arguments read from the file, to avoid
+	 * command line length limits. The file contents are split into arguments using shell-like quoting,
+	 * and may include other response files. Use a doubled prefix like `@@name` for a literal argument.
+	 *
+	 * Call on the program, as the arguments are expanded before parsing.
+	 *
+	 * @example
+	 * program.responseFiles(); // same as .responseFiles('@')
+	 *
+	 * @param {string | boolean} [prefix] - the prefix for response file arguments, or `false` to turn off
+	 * @return {Command} `this` command for chaining
+	 */
+	responseFiles(prefix: string | boolean = "@"): this {
+		if (prefix === "") {
+			throw new Error("response file prefix must not be empty");
+		}
+		this.#responseFilePrefix =
+			prefix === true ? "@" : prefix === false ? undefined : prefix;
+		return this;
+	}
+
+	/**
+	 * Map every option to an environment variable named from the prefix and the option name,
+	 * like `MYTOOL_DRY_RUN` for `--dry-run`. Subcommands without their own prefix add the
+	 * command name, like `MYTOOL_DEPLOY_REGION`. An environment variable set using `Option.env()` is used instead.
+	 *
+	 * @example
+	 * program.envPrefix('MYTOOL');
+	 *
+	 * @param {string | false} prefix - the prefix, or `false` to turn off
+	 * @return {Command} `this` command for chaining
+	 */
+	envPrefix(prefix: string | false): this {
+		this.#envPrefix = prefix === false ? undefined : prefix.replace(/_+$/, "");
+		return this;
+	}
+
+	/**
+	 * Get the environment variable prefix for the options of this command, from this command or the nearest ancestor.
+	 */
+	#getEnvPrefix(): string | undefined {
+		const names: string[] = [];
+		for (const cmd of this.#getCommandAndAncestors()) {
+			if (cmd.#envPrefix !== undefined) {
+				return [cmd.#envPrefix, ...names].join("_");
+			}
+			names.unshift(envVarName(cmd._name));
+		}
+		return undefined;
+	}
+
+	/**
+	 * Get the environment variable for the option, set using `Option.env()` or derived from the prefix.
+	 */
+	#getOptionEnvVar(option: Option): string | undefined {
+		if (option.envVar !== undefined) return option.envVar;
+		const prefix = this.#getEnvPrefix();
+		if (prefix === undefined || !this.#mapsToEnvPrefix(option)) {
+			return undefined;
+		}
+		return `${prefix}_${envVarName(option.name())}`;
+	}
+
+	/**
+	 * Whether the option gets an environment variable from the prefix. Not the version option,
+	 * the companion options to read a value from a file, or a negated option with a positive option.
+	 */
+	#mapsToEnvPrefix(option: Option): boolean {
+		if (option.attributeName() === this.#versionOptionName) return false;
+		if (this.#valueFileOptions.has(option)) return false;
+		if (option.negate) {
+			return !this.options.some(
+				(other) =>
+					!other.negate && other.attributeName() === option.attributeName(),
+			);
+		}
+		return true;
+	}
+
+	/**
+	 * Get the option for the help and documentation, with the environment variable derived from `.envPrefix()`.
+	 * The option is copied so the environment variable is not stored on the option.
+	 *
+	 * @private
+	 */
+	_optionWithEnvVar(option: Option): Option {
+		const envVar = this.#getOptionEnvVar(option);
+		if (envVar === option.envVar) return option;
+		return Object.assign(Object.create(Object.getPrototypeOf(option)), option, {
+			envVar,
+		});
+	}
+
+	/**
+	 * Expand the response file arguments, recursively. Relative paths in a response file
+	 * are resolved from the directory of the response file. Arguments after `--` are not expanded.
+	 */
+	#expandResponseFiles(args: string[], prefix: string): string[] {
+		const result: string[] = [];
+		let literal = false;
+		const expand = (fileArgs: string[], baseDir: string, files: string[]) => {
+			for (const arg of fileArgs) {
+				if (literal || !arg.startsWith(prefix) || arg === prefix) {
+					if (arg === "--") literal = true;
+					result.push(arg);
+				} else if (arg.startsWith(prefix + prefix)) {
+					result.push(arg.slice(prefix.length));
+				} else {
+					const file = path.resolve(baseDir, arg.slice(prefix.length));
+					if (files.includes(file)) {
+						this.error(`error: response file '${file}' includes itself`, {
+							code: "commander.invalidResponseFile",
+						});
+						return;
+					}
+					expand(
+						this.#readResponseFile(file),
+						path.dirname(file),
+						files.concat(file),
+					);
+				}
+			}
+		};
+		expand(args, process.cwd(), []);
+		return result;
+	}
+
+	#readResponseFile(file: string): string[] {
+		let content = "";
+		try {
+			content = fs.readFileSync(file, "utf8");
+		} catch (err) {
+			const reason = err instanceof Error ? err.message : String(err);
+			this.error(`error: cannot read response file '${file}'. ${reason}`, {
+				code: "commander.invalidResponseFile",
+			});
+		}
+		try {
+			return tokenizeArgs(content);
+		} catch (err) {
+			const reason = err instanceof Error ? err.message : String(err);
+			this.error(`error: response file '${file}' is invalid. ${reason}`, {
+				code: "commander.invalidResponseFile",
+			});
+			return [];
+		}
+	}
+
 	/**
 	 * @private
 	 */
@@ -941,6 +1388,65 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		}
 	}
 
+	/**
+	 * Read option values from a config file, with source 'config'. Option values from the command line
+	 * and environment variables take precedence over values from the config file.
+	 *
+	 * The config keys are the option attribute names (or long option names), and subcommand options are
+	 * read from a nested object with the subcommand name as key. The values are processed by the custom
+	 * option processing (`.argParser()`) and choices, if any.
+	 *
+	 * A file path is optional and ignored if it does not exist. Pass a function to resolve the path when
+	 * parsing, such as from a `--config` option. It is an error if the resolved file does not exist.
+	 *
+	 * JSON files are supported by default. Supply parsers for other formats keyed by file extension.
+	 *
+	 * @example
+	 * program.configFile('.mytoolrc.json');
+	 * program
+	 *   .option('--config <file>')
+	 *   .configFile((cmd) => cmd.opts().config, { formats: { '.yaml': YAML.parse } });
+	 *
+	 * @return `this` command for chaining
+	 */
+	configFile(
+		pathOrResolver: string | ((command: Command) => string | undefined),
+		options?: ConfigFileOptions,
+	): this {
+		this.#configFile = pathOrResolver;
+		this.#addConfigFormats(options?.formats);
+		return this;
+	}
+
+	/**
+	 * Discover config files for option values, with source 'config'. The config files are read like for `.configFile()`,
+	 * and when a value is in multiple files the value from the file with highest precedence is used. From lowest to highest precedence:
+	 * - system: `/etc/<name>/config.json` (or `%ProgramData%\<name>\config.json` on Windows)
+	 * - user: `$XDG_CONFIG_HOME/<name>/config.json` (defaulting to `~/.config/<name>/config.json`)
+	 * - project: `.<name>rc.json` in the current directory and its ancestors, with nearer files taking precedence
+	 * - a config file added with `.configFile()`
+	 *
+	 * Use `.getOptionValueConfigFile()` to find which file supplied a value.
+	 *
+	 * @example
+	 * program.configDiscovery('mytool');
+	 * program.configDiscovery('mytool', { systemDir: false, formats: { '.yaml': YAML.parse } });
+	 *
+	 * @return `this` command for chaining
+	 */
+	configDiscovery(name: string, options?: ConfigDiscoveryOptions): this {
+		this.#configDiscovery = { ...options, name };
+		this.#addConfigFormats(options?.formats);
+		return this;
+	}
+
+	#addConfigFormats(formats?: Record<string, ConfigFormatParser>) {
+		Object.entries(formats ?? {}).forEach(([ext, parser]) => {
+			const key = ext.startsWith(".") ? ext : `.${ext}`;
+			this.#configFormats[key.toLowerCase()] = parser;
+		});
+	}
+
 	/**
 	 * Whether to store option values as properties on command object,
 	 * or store separately (specify false). In both cases the option values can be accessed using .opts().
@@ -993,7 +1499,7 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 *
 	 * @param {string} key
 	 * @param {object} value
-	 * @param {string} source - expected values are default/config/env/cli/implied
+	 * @param {string} source - expected values are default/config/env/cli/implied/prompt
 	 * @return {Command} `this` command for chaining
 	 */
 
@@ -1013,7 +1519,7 @@ Expecting one of '${allowedValues.join("', '")}'`);
 
 	/**
 	 * Get source of option value.
-	 * Expected values are default | config | env | cli | implied
+	 * Expected values are default | config | env | cli | implied | prompt
 	 *
 	 * @param {string} key
 	 * @return {string}
@@ -1025,21 +1531,132 @@ Expecting one of '${allowedValues.join("', '")}'`);
 
 	/**
 	 * Get source of option value. See also .optsWithGlobals().
-	 * Expected values are default | config | env | cli | implied
+	 * Expected values are default | config | env | cli | implied | prompt
+	 *
+	 * Pass `{ includeFile: true }` to also get the config file which supplied the value.
 	 *
 	 * @param {string} key
 	 * @return {string}
 	 */
 
-	getOptionValueSourceWithGlobals(key: string): string {
+	getOptionValueSourceWithGlobals(key: string): string;
+	getOptionValueSourceWithGlobals(
+		key: string,
+		options: { includeFile: true },
+	): { source: string | undefined; file: string | undefined };
+	getOptionValueSourceWithGlobals(
+		key: string,
+		options?: { includeFile?: boolean },
+	): string | { source: string | undefined; file: string | undefined } {
 		// global overwrites local, like optsWithGlobals
 		let source;
+		let file;
 		this.#getCommandAndAncestors().forEach((cmd) => {
 			if (cmd.getOptionValueSource(key) !== undefined) {
 				source = cmd.getOptionValueSource(key);
+				file = cmd.getOptionValueConfigFile(key);
 			}
 		});
-		return source;
+		return options?.includeFile ? { source, file } : source;
+	}
+
+	/**
+	 * Get the config file which supplied the option value, if the source of the option value is 'config'.
+	 *
+	 * @param {string} key
+	 * @return {string | undefined}
+	 */
+
+	getOptionValueConfigFile(key: string): string | undefined {
+		if (this.getOptionValueSource(key) !== "config") return undefined;
+		return this.#optionValueConfigFiles[key];
+	}
+
+	/**
+	 * Save the state before the first parse, or restore it before later parses so parse can be called again.
+	 * Includes all the subcommands, not just the one dispatched, so none have state left over from a previous parse.
+	 */
+	#prepareForParse() {
+		if (this.#savedState) {
+			this.#restoreState();
+		} else {
+			this.#saveState();
+		}
+		this.commands.forEach((sub) => {
+			sub.#prepareForParse();
+		});
+	}
+
+	/**
+	 * Save the post-definition state, which includes the default option values (and false for negated options).
+	 */
+	#saveState() {
+		const optionValues: OptionValues = this._storeOptionsAsProperties
+			? Object.fromEntries(
+					this.options.map((option) => {
+						const key = option.attributeName();
+						return [key, this.getOptionValue(key)];
+					}),
+				)
+			: { ...this.#optionValues };
+		this.#savedState = {
+			// name is stable if supplied by author, but may be deduced from the script during parsing
+			name: this._name,
+			optionValues,
+			optionValueSources: { ...this._optionValueSources },
+		};
+	}
+
+	/**
+	 * Add the default value for an option added after the state was saved, so it is restored when parsing again.
+	 */
+	#saveOptionState(key: string) {
+		const saved = this.#savedState;
+		if (!saved) return;
+		if (this.getOptionValueSource(key) === "default") {
+			saved.optionValues[key] = this.getOptionValue(key);
+			saved.optionValueSources[key] = "default";
+		} else if (this._storeOptionsAsProperties && !(key in saved.optionValues)) {
+			// saved values include undefined for options without a default value
+			saved.optionValues[key] = undefined;
+		}
+	}
+
+	#restoreState() {
+		const saved = this.#savedState;
+		if (!saved) return;
+		// clear state from _prepareUserArgs
+		this._name = saved.name;
+		this.#scriptPath = null;
+		this.rawArgs = [];
+		// clear state from setOptionValueWithSource
+		if (this._storeOptionsAsProperties) {
+			// saved values include undefined for options without a default value
+			Object.assign(this, saved.optionValues);
+		} else {
+			this.#optionValues = { ...saved.optionValues };
+		}
+		this._optionValueSources = { ...saved.optionValueSources };
+		this.#optionValueConfigFiles = {};
+		// clear state from #parseCommand and #processArguments
+		this.args = [];
+		this.processedArgs = [] as unknown as Args;
+	}
+
+	/**
+	 * Restore the command and its subcommands to the state before they were first parsed,
+	 * clearing the option values, arguments, and option value sources from previous parses.
+	 *
+	 * Parse does this automatically, so only needed to inspect the commands between parses.
+	 *
+	 * @return `this` command for chaining
+	 */
+	reset(): this {
+		this.#restoreState();
+		this.commands.forEach((sub) => {
+			sub.reset();
+		});
+		return this;
 	}
 
 	/**
@@ -1050,6 +1667,22 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 */
 
 	_prepareUserArgs(argv, parseOptions) {
+		if (parseOptions?.from === "string") {
+			if (typeof argv !== "string") {
+				throw new Error(
+					"first parameter to parse must be a string when using { from: 'string' }",
+				);
+			}
+			try {
+				argv = tokenizeArgs(argv);
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				this.error(`error: ${message}`, {
+					code: "commander.invalidCommandLine",
+				});
+			}
+			parseOptions = { from: "user" };
+		}
 		if (argv !== undefined && !Array.isArray(argv)) {
 			throw new Error("first parameter to parse must be array or undefined");
 		}
@@ -1107,6 +1740,10 @@ Expecting one of '${allowedValues.join("', '")}'`);
 				);
 		}
 
+		if (this.#responseFilePrefix !== undefined) {
+			userArgs = this.#expandResponseFiles(userArgs, this.#responseFilePrefix);
+		}
+
 		// Find default name for program from arguments.
 		if (!this._name && this.#scriptPath)
 			this.nameFromFilename(this.#scriptPath);
@@ -1127,19 +1764,36 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 * - `'electron'`: `argv[0]` is the application and `argv[1]` varies depending on whether the electron application is packaged
 	 * - `'user'`: just user arguments
 	 *
+	 * Or call with a command line string and `{ from: 'string' }` to split it into arguments using shell-like quoting, like `"deploy --env 'prod eu'"`.
+	 *
 	 * @example
 	 * program.parse(); // parse process.argv and auto-detect electron and special node flags
 	 * program.parse(process.argv); // assume argv[0] is app and argv[1] is script
 	 * program.parse(my-args, { from: 'user' }); // just user supplied arguments, nothing special about argv[0]
+	 * program.parse("deploy --env 'prod eu'", { from: 'string' }); // command line string split like a shell
 	 *
 	 * @param argv - optional, defaults to process.argv
-	 * @param parseOptions - optionally specify style of options with from: node/user/electron
-	 * @param parseOptions.from - where the args are from: 'node', 'user', 'electron'
+	 * @param parseOptions - optionally specify style of options with from: node/user/electron/string
+	 * @param parseOptions.from - where the args are from: 'node', 'user', 'electron', 'string'
 	 * @return `this` command for chaining
 	 */
-	parse(argv?: readonly string[], parseOptions?: ParseOptions): this {
+	parse(
+		argv?: readonly string[] | string,
+		parseOptions?: ParseOptions | { from: "string" },
+	): this {
+		this.#prepareForParse();
 		const userArgs = this._prepareUserArgs(argv, parseOptions);
-		this.#parseCommand([], userArgs);
+		this.#checkOptionConstraints();
+		if (this.#isCompletionRequest(userArgs)) {
+			this.#outputCompletions(userArgs.slice(1), true);
+			return this;
+		}
+		this.#parsingSync = true;
+		try {
+			this.#parseCommand([], userArgs);
+		} finally {
+			this.#parsingSync = false;
+		}
 
 		return this;
 	}
@@ -1154,31 +1808,91 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 * - `'electron'`: `argv[0]` is the application and `argv[1]` varies depending on whether the electron application is packaged
 	 * - `'user'`: just user arguments
 	 *
+	 * Or call with a command line string and `{ from: 'string' }` to split it into arguments using shell-like quoting, like `"deploy --env 'prod eu'"`.
+	 *
 	 * @example
 	 * await program.parseAsync(); // parse process.argv and auto-detect electron and special node flags
 	 * await program.parseAsync(process.argv); // assume argv[0] is app and argv[1] is script
 	 * await program.parseAsync(my-args, { from: 'user' }); // just user supplied arguments, nothing special about argv[0]
+	 * await program.parseAsync("deploy --env 'prod eu'", { from: 'string' }); // command line string split like a shell
 	 *
-	 * @param {string[]} [argv]
+	 * @param {string[]|string} [argv]
 	 * @param {object} [parseOptions]
-	 * @param {string} parseOptions.from - where the args are from: 'node', 'user', 'electron'
+	 * @param {string} parseOptions.from - where the args are from: 'node', 'user', 'electron', 'string'
 	 * @return {Promise}
 	 */
 
 	async parseAsync(
-		argv: string[],
+		argv: readonly string[] | string,
 		parseOptions: { from: string },
 	): Promise<unknown> {
+		this.#prepareForParse();
 		const userArgs = this._prepareUserArgs(argv, parseOptions);
+		this.#checkOptionConstraints();
+		if (this.#isCompletionRequest(userArgs)) {
+			await this.#outputCompletions(userArgs.slice(1));
+			return this;
+		}
 		await this.#parseCommand([], userArgs);
 
 		return this;
 	}
 
 	/**
-	 * Execute a sub-command executable.
+	 * Parse `argv` without invoking action handlers or hooks, and without writing output or exiting.
+	 * Returns the command which was parsed along with its arguments and options, and any error.
+	 *
+	 * Displaying help or the version are reported as errors with an exit code of 0, like when using `.exitOverride()`.
+	 *
+	 * @example
+	 * const { command, args, opts, errors } = program.parseResult(['serve', '--port', '80'], { from: 'user' });
+	 *
+	 * @param argv - optional, defaults to process.argv
+	 * @param parseOptions - optionally specify style of options with from: node/user/electron/string
+	 * @return the parsed command, arguments, options, and errors
 	 */
-	_executeSubCommand(subcommand: Command, args: string[]) {
+	parseResult(
+		argv?: readonly string[] | string,
+		parseOptions?: ParseOptions | { from: "string" },
+	): ParseResult {
+		this.#prepareForParse();
+		const state: { command: Command; errors: CommanderError[] } = {
+			command: this as unknown as Command,
+			errors: [],
+		};
+		this.#parseOnly = state;
+		try {
+			// Inside try as an invalid command line string is reported as an error.
+			const userArgs = this._prepareUserArgs(argv, parseOptions);
+			this.#checkOptionConstraints();
+			this.#parseCommand([], userArgs);
+		} catch (err) {
+			if (!(err instanceof CommanderError)) throw err;
+			state.errors.push(...(err.errors ?? [err]));
+		} finally {
+			this.#parseOnly = undefined;
+		}
+
+		return {
+			command: state.command as unknown as ParseResult["command"],
+			args: state.command.processedArgs,
+			opts: state.command.opts(),
+			errors: state.errors,
+		};
+	}
+
+	/**
+	 * Get the parse-only state from the root command, if parsing with `.parseResult()`.
+	 */
+	#getParseOnly() {
+		const root = this.#getCommandAndAncestors().at(-1);
+		return root && root.#parseOnly;
+	}
+
+	/**
+	 * Execute a sub-command executable.
+	 */
+	_executeSubCommand(subcommand: Command, args: string[]) {
 		args = args.slice();
 		let launchWithNode = false; // Use node for source targets so do not need to get permissions correct, and on Windows.
 		const sourceExt = [".js", ".ts", ".tsx", ".mjs", ".cjs"];
@@ -1201,8 +1915,12 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		}
 
 		// Not checking for help first. Unlikely to have mandatory and executable, and can't robustly test for help flags in external command.
+		this.#checkValueSchemas();
 		this.#checkForMissingMandatoryOptions();
 		this.#checkForConflictingOptions();
+		this.#checkForRequiredOptions();
+		this.#checkOptsSchema();
+		this.#reportCollectedErrors();
 
 		// executableFile and executableDir might be full path, or just a name
 		let executableFile =
@@ -1326,10 +2044,22 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		commandName: string,
 		operands: string[],
 		unknown: string[],
-	) {
+	): Promise<unknown> | void {
 		const subCommand = this.#findCommand(commandName);
 		if (!subCommand) this.help({ error: true });
 
+		const parseOnly = this.#getParseOnly();
+		if (parseOnly && subCommand) {
+			// Not running hooks or executables, so just parse the subcommand or record it.
+			if (!subCommand._executableHandler) {
+				return subCommand.#parseCommand(operands, unknown);
+			}
+			parseOnly.command = subCommand;
+			subCommand.args = operands.concat(unknown);
+			this.#reportCollectedErrors();
+			return;
+		}
+
 		let promiseChain: Promise<unknown>;
 		promiseChain = this.#chainOrCallSubCommandHook(
 			promiseChain,
@@ -1374,7 +2104,11 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	#checkNumberOfArguments() {
 		// too few
 		this.registeredArguments.forEach((arg, i) => {
-			if (arg.required && this.args[i] == null) {
+			if (
+				arg.required &&
+				this.args[i] == null &&
+				this.#argumentEnvValue(arg) === undefined
+			) {
 				this.missingArgument(arg.name());
 			}
 		});
@@ -1390,6 +2124,14 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		}
 	}
 
+	/**
+	 * Return the value of the environment variable for an argument, if set.
+	 */
+	#argumentEnvValue(argument: Argument): string | undefined {
+		if (argument.envVar === undefined) return undefined;
+		return process.env[argument.envVar];
+	}
+
 	/**
 	 * Process this.args using this.registeredArguments and save as this.processedArgs!
 	 */
@@ -1398,11 +2140,13 @@ Expecting one of '${allowedValues.join("', '")}'`);
 			argument: Argument,
 			value: string,
 			previous: unknown,
+			fromEnv: boolean,
 		) => {
 			// Extra processing for nice error message on parsing failure.
 			let parsedValue = value;
 			if (value !== null && argument.parseArg) {
-				const invalidValueMessage = `error: command-argument value '${value}' is invalid for argument '${argument.name()}'.`;
+				const envInfo = fromEnv ? ` from env '${argument.envVar}'` : "";
+				const invalidValueMessage = `error: command-argument value '${value}'${envInfo} is invalid for argument '${argument.name()}'.`;
 				parsedValue = this.#callParseArg(
 					argument,
 					value,
@@ -1417,29 +2161,57 @@ Expecting one of '${allowedValues.join("', '")}'`);
 
 		const processedArgs: unknown[] = [];
 		this.registeredArguments.forEach((declaredArg, index) => {
+			const errorCount = this.#getCollectedErrors()?.length;
+			// Fall back to the environment variable for a missing argument.
+			let args = this.args;
+			const envValue =
+				index >= args.length ? this.#argumentEnvValue(declaredArg) : undefined;
+			if (envValue !== undefined) {
+				args = this.args.slice();
+				args[index] = envValue;
+			}
+			const fromEnv = args !== this.args;
 			let value: unknown = declaredArg.defaultValue;
 			if (declaredArg.variadic) {
 				// Collect together remaining arguments for passing together as an array.
-				if (index < this.args.length) {
-					value = this.args.slice(index);
+				if (index < args.length) {
+					value = args.slice(index);
 					if (declaredArg.parseArg) {
 						value = (value as string[]).reduce((processed, v) => {
-							return myParseArg(declaredArg, v, processed);
+							return myParseArg(declaredArg, v, processed, fromEnv);
 						}, declaredArg.defaultValue);
 					}
 				} else if (value === undefined) {
 					value = [];
 				}
-			} else if (index < this.args.length) {
-				value = this.args[index];
+			} else if (index < args.length) {
+				value = args[index];
 				if (declaredArg.parseArg) {
 					value = myParseArg(
 						declaredArg,
 						value as string,
 						declaredArg.defaultValue,
+						fromEnv,
 					);
 				}
 			}
+			// Validate supplied values, unless already reported invalid by the custom processing.
+			if (
+				declaredArg.valueSchema &&
+				index < args.length &&
+				this.#getCollectedErrors()?.length === errorCount
+			) {
+				const supplied = declaredArg.variadic
+					? args.slice(index).join(" ")
+					: args[index];
+				const envInfo = fromEnv ? ` from env '${declaredArg.envVar}'` : "";
+				const invalidValueMessage = `error: command-argument value '${supplied}'${envInfo} is invalid for argument '${declaredArg.name()}'.`;
+				value = this.#callValueSchema(
+					declaredArg.valueSchema,
+					value,
+					invalidValueMessage,
+				);
+			}
 			processedArgs[index] = value;
 		});
 		this.processedArgs = processedArgs;
@@ -1506,7 +2278,15 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 * Returns action result, in case it is a promise.
 	 */
 	#parseCommand(operands: string[], unknown: string[]) {
+		const parseOnly = this.#getParseOnly();
+		if (parseOnly) parseOnly.command = this as unknown as Command;
+		// Clear any errors left over from a previous parse which threw while collecting.
+		if (!this.parent) this.#collectedErrors = undefined;
+		// Collect the invalid option values too, not just the errors from the checks.
+		this.#startCollectingErrors();
+		this.#valueSchemaChecks.clear();
 		const parsed = this.parseOptions(unknown);
+		this._parseOptionsConfig(); // after cli so have option values for config resolver, and before env
 		this._parseOptionsEnv(); // after cli, so parseArg not called on both cli and env
 		this._parseOptionsImplied();
 		operands = operands.concat(parsed.operands);
@@ -1541,20 +2321,65 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		}
 
 		this.#outputHelpIfRequested(parsed.unknown);
+		if (!parseOnly && this.#shouldPromptForMissing()) {
+			return this.#chainOrCall(this.#promptForMissingValues(), () =>
+				this.#checkAndRunCommand(operands, unknown),
+			);
+		}
+		return this.#checkAndRunCommand(operands, unknown);
+	}
+
+	/**
+	 * Check the options and arguments for this command, then call the action handler.
+	 * Returns action result, in case it is a promise.
+	 */
+	#checkAndRunCommand(
+		operands: string[],
+		unknown: string[],
+	): Promise<unknown> | void {
+		const parseOnly = this.#getParseOnly();
+		this.#startCollectingErrors();
+		this.#checkValueSchemas();
 		this.#checkForMissingMandatoryOptions();
 		this.#checkForConflictingOptions();
+		this.#checkForRequiredOptions();
+		this.#checkOptsSchema();
 
 		// We do not always call this check to avoid masking a "better" error, like unknown command.
 		const checkForUnknownOptions = () => {
-			if (parsed.unknown.length > 0) {
-				this.unknownOption(parsed.unknown[0]);
+			if (unknown.length > 0) {
+				this.unknownOption(unknown[0]);
+			}
+			if (this.#aggregateErrors) {
+				// Report the rest of the unknown options too, stopping at the option terminator.
+				const terminator = unknown.indexOf("--");
+				unknown
+					.slice(1, terminator === -1 ? undefined : terminator)
+					.filter((arg) => arg.length > 1 && arg.startsWith("-"))
+					.forEach((arg) => this.unknownOption(arg));
 			}
 		};
 
+		if (parseOnly) {
+			// Skip the action handler and legacy command events, but do the same checks.
+			if (operands.length && !this._actionHandler) {
+				if (this.#findCommand("*")) {
+					// legacy default command
+					return this.#dispatchSubcommand("*", operands, unknown);
+				}
+				if (this.commands.length) this.unknownCommand();
+			}
+			checkForUnknownOptions();
+			this.#processArguments();
+			this.#reportCollectedErrors();
+			return;
+		}
+
 		const commandEvent = `command:${this.name()}`;
 		if (this._actionHandler) {
 			checkForUnknownOptions();
 			this.#processArguments();
+			this.#reportCollectedErrors();
 
 			let promiseChain;
 			promiseChain = this.#chainOrCallHooks(promiseChain, "preAction");
@@ -1572,6 +2397,7 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		if (this.parent && this.parent.listenerCount(commandEvent)) {
 			checkForUnknownOptions();
 			this.#processArguments();
+			this.#reportCollectedErrors();
 			this.parent.emit(commandEvent, operands, unknown); // legacy
 		} else if (operands.length) {
 			if (this.#findCommand("*")) {
@@ -1580,24 +2406,120 @@ Expecting one of '${allowedValues.join("', '")}'`);
 			}
 			if (this.listenerCount("command:*")) {
 				// skip option check, emit event for possible misspelling suggestion
+				this.#reportCollectedErrors();
 				this.emit("command:*", operands, unknown);
 			} else if (this.commands.length) {
 				this.unknownCommand();
+				this.#reportCollectedErrors();
 			} else {
 				checkForUnknownOptions();
 				this.#processArguments();
+				this.#reportCollectedErrors();
 			}
 		} else if (this.commands.length) {
 			checkForUnknownOptions();
+			this.#reportCollectedErrors();
 			// This command has subcommands and nothing hooked up at this level, so display help (and exit).
 			this.help({ error: true });
 		} else {
 			checkForUnknownOptions();
 			this.#processArguments();
+			this.#reportCollectedErrors();
 			// fall through for caller to handle after calling .parse()
 		}
 	}
 
+	/**
+	 * Whether to prompt for missing values, which needs interactive input and a command which will process its arguments.
+	 */
+	#shouldPromptForMissing(): boolean {
+		if (!this.#promptForMissing) return false;
+		if (this.commands.length && !this._actionHandler) return false;
+		// The prompt hooks are optional, so not included in the default output configuration.
+		const { isInteractive = () => !!process.stdin.isTTY } = this
+			.#outputConfiguration as OutputConfiguration;
+		return !!isInteractive();
+	}
+
+	/**
+	 * Prompt for the missing mandatory option values and required command-arguments.
+	 * Returns undefined if there is nothing to prompt for, so parse stays synchronous.
+	 * Throws if there is something to prompt for when called from `.parse()`.
+	 */
+	#promptForMissingValues(): Promise<void> | undefined {
+		const missingOptions = this.#getCommandAndAncestors().flatMap((cmd) =>
+			cmd.options
+				.filter(
+					(option) =>
+						option.mandatory &&
+						(option.required || option.optional) &&
+						cmd.getOptionValue(option.attributeName()) === undefined,
+				)
+				.map((option) => ({ cmd, option })),
+		);
+		const missingArguments = this.registeredArguments.filter(
+			(argument, index) =>
+				argument.required &&
+				this.args[index] == null &&
+				this.#argumentEnvValue(argument) === undefined,
+		);
+		if (missingOptions.length === 0 && missingArguments.length === 0) {
+			return undefined;
+		}
+		const root = this.#getCommandAndAncestors().at(-1);
+		if (root && root.#parsingSync) {
+			throw new Error(
+				`Prompting for missing values for command '${this.name()}' is asynchronous, so call .parseAsync() rather than .parse()`,
+			);
+		}
+
+		const promptAll = async () => {
+			for (const { cmd, option } of missingOptions) {
+				const value = await this.#promptForValue(
+					`option '${option.flags}'`,
+					option.argChoices,
+					option.secret,
+				);
+				// An empty answer leaves the value missing, for the usual error.
+				if (value !== "") cmd.emit(`optionPrompt:${option.name()}`, value);
+			}
+			for (const argument of missingArguments) {
+				const value = await this.#promptForValue(
+					`argument '${argument.name()}'`,
+					argument.argChoices,
+					false,
+				);
+				if (value === "") break;
+				this.args.push(value);
+			}
+		};
+		return promptAll();
+	}
+
+	/**
+	 * Prompt for a single value. The choices are displayed as a numbered list, and can be picked by number or value.
+	 */
+	async #promptForValue(
+		label: string,
+		choices: readonly string[] | undefined,
+		sensitive: boolean,
+	): Promise<string> {
+		let prompt = `Enter ${label}: `;
+		if (choices) {
+			this.#outputConfiguration.writeOut(
+				`Choose ${label}:\n${choices.map((choice, index) => `  ${index + 1}) ${choice}\n`).join("")}`,
+			);
+			prompt = "Enter number or value: ";
+		}
+		const { readInput: readLine = readInput } = this
+			.#outputConfiguration as OutputConfiguration;
+		const answer = await readLine(prompt, { sensitive });
+		if (choices && !choices.includes(answer) && /^\d+$/.test(answer)) {
+			return choices[Number(answer) - 1] ?? answer;
+		}
+		return answer;
+	}
+
 	/**
 	 * Find matching command.
 	 */
@@ -1658,6 +2580,129 @@ Expecting one of '${allowedValues.join("', '")}'`);
 				this.#conflictingOption(option, conflictingAndDefined);
 			}
 		}
+
+		for (const constraint of this.#optionConstraints) {
+			const defined = definedNonDefaultOptions.filter((option) =>
+				constraint.names.includes(option.attributeName()),
+			);
+			// Negated and positive options share an attribute name, so compare the names.
+			const definedNames = new Set(
+				defined.map((option) => option.attributeName()),
+			);
+			if (constraint.exclusive && definedNames.size > 1) {
+				const second = defined.find(
+					(option) => option.attributeName() !== defined[0].attributeName(),
+				);
+				this.#conflictingOption(defined[0], second as Option);
+			} else if (constraint.required && definedNames.size === 0) {
+				this.#missingOneOfOptions(constraint.names);
+			}
+		}
+	}
+
+	/**
+	 * Get the usage for the option groups from `.exclusiveOptions()` and `.requireOneOf()`,
+	 * like `(--file | --url)` when one is required or `[--file | --url]` otherwise.
+	 */
+	#optionConstraintsUsage(): string[] {
+		this.#checkOptionConstraints(false);
+		return this.#optionConstraints.map((constraint) => {
+			const flags = constraint.names
+				.map((name) => this.#optionConstraintFlag(name))
+				.join(" | ");
+			return constraint.required ? `(${flags})` : `[${flags}]`;
+		});
+	}
+
+	/**
+	 * Check the option groups from `.exclusiveOptions()` and `.requireOneOf()` only name known options,
+	 * for this command and optionally its subcommands. Checked when parsing or building help, after the options have been added.
+	 */
+	#checkOptionConstraints(recursive = true) {
+		for (const constraint of this.#optionConstraints) {
+			const unknownName = constraint.names.find(
+				(name) => !this.#findConstraintOption(name),
+			);
+			if (unknownName !== undefined) {
+				const method = constraint.exclusive
+					? ".exclusiveOptions()"
+					: ".requireOneOf()";
+				throw new Error(`Unknown option '${unknownName}' passed to ${method} for command '${this.name()}'
+- expecting the attribute name of an option, like 'dryRun' for '--dry-run'`);
+			}
+		}
+		if (recursive) {
+			this.commands.forEach((sub) => {
+				sub.#checkOptionConstraints();
+			});
+		}
+	}
+
+	/**
+	 * Get the flag to show for the named option in an option group, preferring the long flag.
+	 */
+	#optionConstraintFlag(name: string): string {
+		const option = this.#findConstraintOption(name) as Option;
+		return option.long ?? option.short;
+	}
+
+	/**
+	 * Find the named option for an option group, preferring the positive option to the negated option.
+	 */
+	#findConstraintOption(name: string): Option | undefined {
+		const matching = this.options.filter(
+			(option) => option.attributeName() === name,
+		);
+		return matching.find((option) => !option.negate) ?? matching[0];
+	}
+
+	/**
+	 * Display an error message if an option is used without the options it requires,
+	 * or an option does not have a value when its `.requiredIf()` condition is met.
+	 */
+	#checkForRequiredLocalOptions() {
+		for (const option of this.options) {
+			const optionKey = option.attributeName();
+			const value = this.getOptionValue(optionKey);
+			if (
+				option.requiresOptions.length > 0 &&
+				value !== undefined &&
+				this.getOptionValueSource(optionKey) !== "default"
+			) {
+				option.requiresOptions
+					.filter((name) => this.getOptionValue(name) === undefined)
+					.forEach((name) => this.#missingRequiredOption(option, name));
+			}
+
+			const condition = option.requiredCondition;
+			if (condition && value === undefined) {
+				if (typeof condition === "function") {
+					if (condition(this.opts())) {
+						this.#missingConditionallyRequiredOption(option);
+					}
+				} else {
+					const triggerNames = Object.keys(condition);
+					if (
+						triggerNames.every(
+							(name) => this.getOptionValue(name) === condition[name],
+						)
+					) {
+						this.#missingConditionallyRequiredOption(option, triggerNames);
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Display an error message if required options are missing.
+	 * Called after checking for help flags in leaf subcommand.
+	 */
+	#checkForRequiredOptions() {
+		// Walk up hierarchy so can call in subcommand after checking for displaying help.
+		for (const cmd of this.#getCommandAndAncestors()) {
+			cmd.#checkForRequiredLocalOptions();
+		}
 	}
 
 	/**
@@ -1671,6 +2716,75 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		}
 	}
 
+	/**
+	 * Validate the option values using the schemas from `Option.schema()`.
+	 * Called after parsing, so each value is validated once.
+	 */
+	#checkValueSchemas() {
+		// Walk up hierarchy so can call in subcommand.
+		for (const cmd of this.#getCommandAndAncestors()) {
+			cmd.#valueSchemaChecks.forEach(
+				({ schema, invalidValueMessage }, option) => {
+					const key = option.attributeName();
+					const value = cmd.#callValueSchema(
+						schema,
+						cmd.getOptionValue(key),
+						invalidValueMessage,
+					) as OptionValues[string];
+					cmd.setOptionValueWithSource(
+						key,
+						value,
+						cmd.getOptionValueSource(key),
+					);
+				},
+			);
+			cmd.#valueSchemaChecks.clear();
+		}
+	}
+
+	/**
+	 * Validate the option values using the schemas from `.optsSchema()`.
+	 * Called after checking for help flags in leaf subcommand.
+	 */
+	#checkOptsSchema() {
+		// Walk up hierarchy so can call in subcommand after checking for displaying help.
+		for (const cmd of this.#getCommandAndAncestors()) {
+			cmd.#checkLocalOptsSchema();
+		}
+	}
+
+	/**
+	 * Validate the local option values using the schema from `.optsSchema()`, if any.
+	 * Each issue is reported as an error, and the option values are updated when valid.
+	 */
+	#checkLocalOptsSchema() {
+		if (!this.#optsSchema) return;
+		const result = validateSchema(this.#optsSchema, this.opts());
+		if (result.issues) {
+			result.issues.forEach((issue) => {
+				const [first, ...path] = issue.path ?? [];
+				const key = typeof first === "object" ? first.key : first;
+				const option =
+					key !== undefined &&
+					this.options.find((opt) => opt.attributeName() === String(key));
+				const message = option
+					? `error: option '${option.flags}' value is invalid. ${formatIssue({ ...issue, path })}`
+					: `error: option values are invalid. ${formatIssue(issue)}`;
+				this.error(message, { code: "commander.invalidOptionValues" });
+			});
+			return;
+		}
+		Object.entries(result.value as OptionValues).forEach(([key, value]) => {
+			if (this.getOptionValue(key) !== value) {
+				this.setOptionValueWithSource(
+					key,
+					value,
+					this.getOptionValueSource(key),
+				);
+			}
+		});
+	}
+
 	/**
 	 * Parse options from `argv` removing known options,
 	 * and return argv split into operands and unknown arguments.
@@ -1832,6 +2946,23 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		return this.#optionValues as Opts;
 	}
 
+	/**
+	 * Validate the option values after parsing using a Standard Schema validator, like those from Zod, Valibot, and ArkType,
+	 * such as for rules involving several options. The option values are updated with the output of the validator.
+	 *
+	 * @example
+	 * program.optsSchema(
+	 *   z.object({ min: z.number(), max: z.number() })
+	 *     .refine((opts) => opts.min <= opts.max, { message: 'min must not exceed max', path: ['min'] }),
+	 * );
+	 *
+	 * @return `this` command for chaining
+	 */
+	optsSchema(schema: StandardSchemaV1): this {
+		this.#optsSchema = schema;
+		return this;
+	}
+
 	/**
 	 * Return an object containing merged local and global option values as key-value pairs.
 	 */
@@ -1852,7 +2983,27 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 * @param {number} [errorOptions.exitCode] - used with process.exit
 	 */
 	error(message: string, errorOptions: { code?: string; exitCode?: number }) {
-		// output handling
+		const config = errorOptions || {};
+		const exitCode = config.exitCode || 1;
+		const code = config.code || "commander.error";
+
+		const collectedErrors = this.#getCollectedErrors();
+		if (collectedErrors) {
+			// Reported together once all the checks have been made.
+			collectedErrors.push(new CommanderError(exitCode, code, message));
+			return;
+		}
+
+		this.#outputError(message);
+		this.#exit(exitCode, code, message);
+	}
+
+	/**
+	 * Output the error message, and the help or custom message if configured to show after errors.
+	 * Skipped when parsing with parseResult().
+	 */
+	#outputError(message: string) {
+		if (this.#getParseOnly()) return;
 		this.#outputConfiguration.outputError(
 			`${message}\n`,
 			this.#outputConfiguration.writeErr,
@@ -1863,12 +3014,197 @@ Expecting one of '${allowedValues.join("', '")}'`);
 			this.#outputConfiguration.writeErr("\n");
 			this.outputHelp({ error: true });
 		}
+	}
 
-		// exit handling
-		const config = errorOptions || {};
-		const exitCode = config.exitCode || 1;
-		const code = config.code || "commander.error";
-		this.#exit(exitCode, code, message);
+	/**
+	 * Start collecting the errors on the root command, if aggregating errors.
+	 * Keeps the errors already collected while parsing the ancestor commands,
+	 * or reports them if this command is not aggregating errors.
+	 */
+	#startCollectingErrors() {
+		if (!this.#aggregateErrors) {
+			this.#reportCollectedErrors();
+			return;
+		}
+		const root = this.#getCommandAndAncestors().at(-1) as Command;
+		root.#collectedErrors ??= [];
+	}
+
+	/**
+	 * Get the errors being collected on the root command, if any.
+	 */
+	#getCollectedErrors() {
+		const root = this.#getCommandAndAncestors().at(-1);
+		return root && root.#collectedErrors;
+	}
+
+	/**
+	 * Stop collecting errors, and report the collected errors together as a single error.
+	 */
+	#reportCollectedErrors() {
+		const root = this.#getCommandAndAncestors().at(-1) as Command;
+		const errors = root.#collectedErrors;
+		root.#collectedErrors = undefined;
+		if (!errors || errors.length === 0) return;
+
+		const message = errors.map((err) => err.message).join("\n");
+		const code =
+			errors.length === 1 ? errors[0].code : "commander.multipleErrors";
+		this.#outputError(message);
+		this.#exit(errors[0].exitCode, code, message, errors);
+	}
+
+	/**
+	 * Find the config files from the discovery locations, from lowest to highest precedence:
+	 * system, user, then project files walking up from the cwd with nearer files taking precedence.
+	 */
+	#discoverConfigFiles(): string[] {
+		if (!this.#configDiscovery) return [];
+		const { name, cwd, userDir, systemDir } = this.#configDiscovery;
+		const extensions = [".json"].concat(
+			Object.keys(this.#configFormats).filter((ext) => ext !== ".json"),
+		);
+		const findFile = (dir: string, basename: string) =>
+			extensions
+				.map((ext) => path.join(dir, `${basename}${ext}`))
+				.find((file) => fs.existsSync(file));
+
+		const projectFiles: string[] = [];
+		let dir = path.resolve(cwd ?? process.cwd());
+		for (;;) {
+			const file = findFile(dir, `.${name}rc`);
+			if (file) projectFiles.unshift(file);
+			const parentDir = path.dirname(dir);
+			if (parentDir === dir) break;
+			dir = parentDir;
+		}
+
+		const defaultSystemDir =
+			process.platform === "win32"
+				? path.join(process.env["ProgramData"] ?? "C:\\ProgramData", name)
+				: path.join("/etc", name);
+		const defaultUserDir = path.join(
+			process.env["XDG_CONFIG_HOME"] || path.join(os.homedir(), ".config"),
+			name,
+		);
+		const layerDirs = [
+			systemDir ?? defaultSystemDir,
+			userDir ?? defaultUserDir,
+		].filter((layerDir): layerDir is string => Boolean(layerDir));
+
+		return layerDirs
+			.map((layerDir) => findFile(layerDir, "config"))
+			.filter((file): file is string => file !== undefined)
+			.concat(projectFiles);
+	}
+
+	/**
+	 * Read a config file, using the parser for the file extension.
+	 */
+	#readConfigFile(file: string): Record<string, unknown> {
+		const content = fs.readFileSync(file, "utf8");
+		const parser =
+			this.#configFormats[path.extname(file).toLowerCase()] ??
+			((str: string) => JSON.parse(str));
+		let values: unknown;
+		try {
+			values = parser(content, file);
+		} catch (err) {
+			const reason = err instanceof Error ? err.message : String(err);
+			this.error(`error: config file '${file}' is invalid. ${reason}`, {
+				code: "commander.invalidConfig",
+			});
+			return {}; // only reached when collecting errors
+		}
+		if (!isConfigObject(values)) {
+			this.error(
+				`error: config file '${file}' is invalid. Expecting an object.`,
+				{ code: "commander.invalidConfig" },
+			);
+			return {}; // only reached when collecting errors
+		}
+		return values as Record<string, unknown>;
+	}
+
+	/**
+	 * Load the config layers for this command, either from the config files or from the sections of the parent config.
+	 * The layers are in order from lowest to highest precedence.
+	 */
+	#loadConfig(): ConfigLayer[] {
+		if (this.#configFile === undefined && !this.#configDiscovery) {
+			const parentLayers = this.parent ? this.parent.#config : [];
+			return parentLayers.flatMap((layer) => {
+				const section = [this._name, ...this._aliases]
+					.map((name) => layer.values[name])
+					.find(isConfigObject);
+				return section ? [{ file: layer.file, values: section }] : [];
+			});
+		}
+
+		const files = this.#discoverConfigFiles();
+		if (this.#configFile !== undefined) {
+			const resolved = typeof this.#configFile === "function";
+			const configPath =
+				typeof this.#configFile === "function"
+					? this.#configFile(this as unknown as Command)
+					: this.#configFile;
+			const file =
+				configPath === undefined ? undefined : path.resolve(configPath);
+			if (file !== undefined && fs.existsSync(file)) {
+				files.push(file);
+			} else if (file !== undefined && resolved) {
+				// Implicit config file is optional, but a resolved config file is expected to exist.
+				this.error(`error: config file '${file}' not found`, {
+					code: "commander.missingConfig",
+				});
+			}
+		}
+		return files.map((file) => ({ file, values: this.#readConfigFile(file) }));
+	}
+
+	/**
+	 * Apply option values from config files, if option does
+	 * not have a value from cli or client code.
+	 *
+	 * @private
+	 */
+	_parseOptionsConfig() {
+		this.#config = this.#loadConfig();
+		this.#optionValueConfigFiles = {};
+
+		this.options.forEach((option) => {
+			const optionKey = option.attributeName();
+			// Use the value from the config file with highest precedence, rather than combining values.
+			let configKey: string | undefined;
+			const layer = this.#config.findLast((candidate) => {
+				configKey = [optionKey, option.name()].find((key) =>
+					Object.hasOwn(candidate.values, key),
+				);
+				return configKey !== undefined;
+			});
+			if (!layer || configKey === undefined) return;
+			// Priority check. Do not overwrite cli or options from unknown source (client-code).
+			if (
+				this.getOptionValue(optionKey) !== undefined &&
+				!["default", "config"].includes(this.getOptionValueSource(optionKey))
+			) {
+				return;
+			}
+
+			const value = layer.values[configKey];
+			// a counting option takes a count, like `verbose: 2`
+			const takesValue = option.required || option.optional || option.counting;
+			if (takesValue && typeof value !== "boolean") {
+				// an array is like repeating the option on the command line
+				const items = Array.isArray(value) ? value : [value];
+				items.forEach((item) => {
+					this.emit(`optionConfig:${option.name()}`, item, layer.file);
+				});
+			} else {
+				this.setOptionValueWithSource(optionKey, value as object, "config");
+			}
+			this.#optionValueConfigFiles[optionKey] = layer.file;
+		});
 	}
 
 	/**
@@ -1879,7 +3215,8 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 */
 	_parseOptionsEnv() {
 		this.options.forEach((option) => {
-			if (option.envVar && option.envVar in process.env) {
+			const envVar = this.#getOptionEnvVar(option);
+			if (envVar && envVar in process.env) {
 				const optionKey = option.attributeName();
 				// Priority check. Do not overwrite cli or options from unknown source (client-code).
 				if (
@@ -1891,7 +3228,16 @@ Expecting one of '${allowedValues.join("', '")}'`);
 					if (option.required || option.optional) {
 						// option can take a value
 						// keep very simple, optional always takes value
-						this.emit(`optionEnv:${option.name()}`, process.env[option.envVar]);
+						this.emit(`optionEnv:${option.name()}`, process.env[envVar]);
+					} else if (option.counting) {
+						// count like `3`, or an empty value is used once
+						this.emit(
+							`optionEnv:${option.name()}`,
+							process.env[envVar] || undefined,
+						);
+					} else if (this.#envBooleans) {
+						// boolean, with value parsed as true or false
+						this.emit(`optionEnv:${option.name()}`, process.env[envVar]);
 					} else {
 						// boolean
 						// keep very simple, only care that envVar defined and not the value
@@ -1974,6 +3320,18 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		this.error(message, { code: "commander.missingMandatoryOptionValue" });
 	}
 
+	/**
+	 * None of the options in a group is used, and one is required.
+	 *
+	 * @param {string[]} names
+	 * @private
+	 */
+	#missingOneOfOptions(names: string[]) {
+		const flags = names.map((name) => this.#optionConstraintFlag(name));
+		const message = `error: one of the options (${flags.join(" | ")}) is required`;
+		this.error(message, { code: "commander.missingOneOfOptions" });
+	}
+
 	/**
 	 * `Option` conflicts with another option.
 	 *
@@ -1982,9 +3340,60 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 * @private
 	 */
 	#conflictingOption(option: Option, conflictingOption: Option) {
+		const message = `error: ${this.#describeOptionValueSource(option)} cannot be used with ${this.#describeOptionValueSource(conflictingOption)}`;
+		this.error(message, { code: "commander.conflictingOption" });
+	}
+
+	/**
+	 * `Option` is used without an option it requires.
+	 *
+	 * @param {Option} option
+	 * @param {string} requiredName
+	 * @private
+	 */
+	#missingRequiredOption(option: Option, requiredName: string) {
+		const requiredOption = this.options.find(
+			(target) => !target.negate && target.attributeName() === requiredName,
+		);
+		const requiredFlags = requiredOption
+			? requiredOption.flags
+			: `--${requiredName}`;
+		const message = `error: ${this.#describeOptionValueSource(option)} requires option '${requiredFlags}'`;
+		this.error(message, { code: "commander.missingRequiredOption" });
+	}
+
+	/**
+	 * `Option` does not have a value, and the condition from `.requiredIf()` is met.
+	 *
+	 * @param {Option} option
+	 * @param {string[]} [triggerNames] - the options with the matching values, if known
+	 * @private
+	 */
+	#missingConditionallyRequiredOption(option: Option, triggerNames?: string[]) {
+		let message = `error: required option '${option.flags}' not specified`;
+		if (triggerNames && triggerNames.length > 0) {
+			const triggers = triggerNames.map((name) => {
+				const triggerOption = this.options.find(
+					(target) => target.attributeName() === name,
+				);
+				const value = JSON.stringify(this.getOptionValue(name));
+				return triggerOption
+					? `${this.#describeOptionValueSource(triggerOption)} is ${triggerOption.maskValue(value)}`
+					: `'${name}' is ${value}`;
+			});
+			message = `error: option '${option.flags}' is required when ${triggers.join(" and ")}`;
+		}
+		this.error(message, { code: "commander.missingRequiredOption" });
+	}
+
+	/**
+	 * Describe where the option value came from for error messages,
+	 * like `option '--port <number>'` or `environment variable 'PORT'`.
+	 */
+	#describeOptionValueSource(option: Option): string {
 		// The calling code does not know whether a negated option is the source of the
 		// value, so do some work to take an educated guess.
-		const findBestOptionFromValue = (option) => {
+		const findBestOptionFromValue = (option: Option) => {
 			const optionKey = option.attributeName();
 			const optionValue = this.getOptionValue(optionKey);
 			const negativeOption = this.options.find(
@@ -2004,18 +3413,22 @@ Expecting one of '${allowedValues.join("', '")}'`);
 			return positiveOption || option;
 		};
 
-		const getErrorMessage = (option) => {
-			const bestOption = findBestOptionFromValue(option);
-			const optionKey = bestOption.attributeName();
-			const source = this.getOptionValueSource(optionKey);
-			if (source === "env") {
-				return `environment variable '${bestOption.envVar}'`;
-			}
-			return `option '${bestOption.flags}'`;
-		};
-
-		const message = `error: ${getErrorMessage(option)} cannot be used with ${getErrorMessage(conflictingOption)}`;
-		this.error(message, { code: "commander.conflictingOption" });
+		const bestOption = findBestOptionFromValue(option);
+		const optionKey = bestOption.attributeName();
+		const source = this.getOptionValueSource(optionKey);
+		if (source === "env") {
+			return `environment variable '${this.#getOptionEnvVar(bestOption)}'`;
+		}
+		if (source === "config") {
+			const file = this.getOptionValueConfigFile(optionKey);
+			return file
+				? `option '${bestOption.flags}' from config '${file}'`
+				: `option '${bestOption.flags}' from config`;
+		}
+		if (source === "default") {
+			return `the default for option '${bestOption.flags}'`;
+		}
+		return `option '${bestOption.flags}'`;
 	}
 
 	/**
@@ -2120,7 +3533,9 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		this.#registerOption(versionOption);
 
 		this.on("option:" + versionOption.name(), () => {
-			this.#outputConfiguration.writeOut(`${str}\n`);
+			if (!this.#getParseOnly()) {
+				this.#outputConfiguration.writeOut(`${str}\n`);
+			}
 			this.#exit(0, "commander.version", str);
 		});
 		return this;
@@ -2154,6 +3569,47 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		return this;
 	}
 
+	/**
+	 * Set the heading for the group in which this command is listed in the help of its parent.
+	 * The default heading is `Commands`.
+	 *
+	 * @example
+	 * program.command('login').helpGroup('Account');
+	 */
+	helpGroup(heading: string): this;
+	helpGroup(): string | undefined;
+	helpGroup(heading?: string): string | undefined | this {
+		if (heading === undefined) return this.#helpGroupHeading;
+		this.#helpGroupHeading = heading;
+		return this;
+	}
+
+	/**
+	 * Set the help group heading for the options added after this call, unless they have their own group.
+	 *
+	 * @example
+	 * program
+	 *   .optionsGroup('Networking')
+	 *   .option('--host <name>')
+	 *   .option('--port <number>');
+	 *
+	 * @return `this` command for chaining
+	 */
+	optionsGroup(heading: string): this {
+		this.#defaultOptionGroup = heading;
+		return this;
+	}
+
+	/**
+	 * Set the help group heading for the subcommands added after this call, unless they have their own group.
+	 *
+	 * @return `this` command for chaining
+	 */
+	commandsGroup(heading: string): this {
+		this.#defaultCommandGroup = heading;
+		return this;
+	}
+
 	/**
 	 * Set an alias for the command.
 	 *
@@ -2223,6 +3679,7 @@ Expecting one of '${allowedValues.join("', '")}'`);
 			return []
 				.concat(
 					this.options.length || this._helpOption !== null ? "[options]" : [],
+					this.#optionConstraintsUsage(),
 					this.commands.length ? "[command]" : [],
 					this.registeredArguments.length ? args : [],
 				)
@@ -2279,6 +3736,349 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		return this;
 	}
 
+	/**
+	 * Generate a shell completion script for this command and its subcommands.
+	 *
+	 * The completions are generated from the visible commands, options, and arguments
+	 * as shown in the help, including the choices for option and argument values.
+	 *
+	 * @example
+	 * fs.writeFileSync('my-program.bash', program.completionScript('bash'));
+	 *
+	 * @param shell - bash, zsh, or fish
+	 */
+	completionScript(shell: CompletionShell): string {
+		return completionScript(
+			this as unknown as Command,
+			this.createHelp(),
+			shell,
+			this._dynamicCompletion ? dynamicCompletionFlag : undefined,
+		);
+	}
+
+	/**
+	 * Enable dynamic completion. The completion script calls the program with a hidden `--get-completions` flag
+	 * followed by the words on the command line, and the program writes the candidates one per line and exits.
+	 * This allows completing values using the `.complete()` callbacks on options and arguments.
+	 *
+	 * @example
+	 * program
+	 *   .enableDynamicCompletion()
+	 *   .addOption(new Option('--branch <name>').complete(() => listBranches()));
+	 *
+	 * @return `this` command for chaining
+	 */
+	enableDynamicCompletion(enable = true): this {
+		this._dynamicCompletion = !!enable;
+		return this;
+	}
+
+	#isCompletionRequest(userArgs: string[]) {
+		return this._dynamicCompletion && userArgs[0] === dynamicCompletionFlag;
+	}
+
+	/**
+	 * Write the completion candidates and exit. Throws when called from `.parse()` and a completer is asynchronous.
+	 */
+	#outputCompletions(words: string[], sync = false): Promise<void> | undefined {
+		const write = (candidates: string[]) => {
+			this.#outputConfiguration.writeOut(
+				candidates.map((candidate) => `${candidate}\n`).join(""),
+			);
+			this.#exit(0, "commander.completion", "(outputCompletions)");
+		};
+		const candidates = this.getCompletions(words);
+		if (candidates instanceof Promise) {
+			if (sync) {
+				// The candidates are not used, so ignore a rejection rather than leave it unhandled.
+				candidates.catch(() => {});
+				throw new Error(
+					`Completion for command '${this.name()}' is asynchronous, so call .parseAsync() rather than .parse()`,
+				);
+			}
+			return candidates.then(write);
+		}
+		write(candidates);
+		return undefined;
+	}
+
+	/**
+	 * Get the completion candidates for the last word in `words`, which may be an empty string.
+	 * The words before the last are the user arguments, and are scanned for subcommands and options
+	 * in the same way as when parsing, but without setting any option values or calling any actions.
+	 *
+	 * Returns a promise if any of the completion callbacks returned a promise.
+	 *
+	 * @example
+	 * program.getCompletions(['install', '--sa']); // ['--save']
+	 */
+	getCompletions(words: string[]): string[] | Promise<string[]> {
+		const partial = words.length ? words[words.length - 1] : "";
+		let command = this as unknown as Command;
+		const findOption = (flag: string) => {
+			for (const cmd of command.#getCommandAndAncestors()) {
+				const option = cmd._findOption(flag);
+				if (option) return option;
+			}
+			return undefined;
+		};
+
+		let valueFor: Option | undefined;
+		let operandCount = 0;
+		let literal = false;
+		for (const word of words.slice(0, -1)) {
+			if (valueFor && (valueFor.required || word[0] !== "-")) {
+				valueFor = undefined;
+				continue;
+			}
+			valueFor = undefined;
+			if (!literal && word === "--") {
+				literal = true;
+				continue;
+			}
+			if (!literal && word.length > 1 && word[0] === "-") {
+				const option = findOption(word);
+				if (option && (option.required || option.optional)) valueFor = option;
+				continue;
+			}
+			const subCommand =
+				operandCount === 0 ? command.#findCommand(word) : undefined;
+			if (subCommand) {
+				command = subCommand;
+				continue;
+			}
+			operandCount++;
+		}
+
+		const helper = command.createHelp();
+		const parts: Array<readonly string[] | Promise<readonly string[]>> = [];
+		let prefix = "";
+		let match = partial;
+		if (valueFor?.required) {
+			parts.push(command.#completionValues(valueFor, partial));
+		} else if (!literal && /^--[^=]+=/.test(partial)) {
+			const index = partial.indexOf("=");
+			const option = findOption(partial.slice(0, index));
+			if (option && (option.required || option.optional)) {
+				prefix = partial.slice(0, index + 1);
+				match = partial.slice(index + 1);
+				parts.push(command.#completionValues(option, match));
+			}
+		} else if (!literal && partial[0] === "-") {
+			parts.push(
+				helper
+					.visibleOptions(command)
+					.concat(helper.visibleGlobalOptions(command))
+					.flatMap((option) => [option.long, option.short])
+					.filter((flag): flag is string => Boolean(flag)),
+			);
+		} else {
+			if (operandCount === 0) {
+				parts.push(
+					helper
+						.visibleCommands(command)
+						.flatMap((sub) => [sub._name].concat(sub._aliases)),
+				);
+			}
+			const args = command.registeredArguments;
+			const argument =
+				operandCount < args.length
+					? args[operandCount]
+					: args[args.length - 1]?.variadic
+						? args[args.length - 1]
+						: undefined;
+			if (argument) parts.push(command.#completionValues(argument, partial));
+		}
+
+		const finish = (results: ReadonlyArray<readonly string[]>) =>
+			Array.from(new Set(results.flat()))
+				.filter((candidate) => candidate.startsWith(match))
+				.map((candidate) => `${prefix}${candidate}`);
+		if (parts.some((part) => part instanceof Promise)) {
+			return Promise.all(parts).then(finish);
+		}
+		return finish(parts as Array<readonly string[]>);
+	}
+
+	#completionValues(
+		target: Option | Argument,
+		partial: string,
+	): readonly string[] | Promise<readonly string[]> {
+		if (target.completer)
+			return target.completer(partial, this as unknown as Command);
+		return target.argChoices ?? [];
+	}
+
+	/**
+	 * Add a subcommand which writes the shell completion script for this command to stdout.
+	 *
+	 * @example
+	 * program.completionCommand();
+	 * // my-program completion bash > my-program.bash
+	 *
+	 * @param name - custom name for the completion command
+	 * @param description - custom description
+	 * @return `this` command for chaining
+	 */
+	completionCommand(
+		name = "completion",
+		description = "generate shell completion script",
+	): this {
+		const completionCommand = this.command(name);
+		completionCommand
+			.description(description)
+			.addArgument(
+				this.createArgument("<shell>", "shell type").choices(completionShells),
+			)
+			.action((shell: unknown) => {
+				// The choices have already checked for a supported shell.
+				const supportedShell = completionShells.find((name) => name === shell);
+				if (supportedShell) {
+					this.#outputConfiguration.writeOut(
+						this.completionScript(supportedShell),
+					);
+				}
+				return undefined;
+			});
+		return this;
+	}
+
+	/**
+	 * Start an interactive session which reads command lines and parses them using this command.
+	 * The lines are split into arguments using shell-like quoting, and errors are displayed without exiting.
+	 * Tab completes the subcommands and options, and the previous lines are available using the arrow keys.
+	 *
+	 * Returns a promise which resolves when the input is closed, such as by Ctrl+D.
+	 *
+	 * @example
+	 * await program.repl({ prompt: 'ops> ' });
+	 */
+	async repl(options: ReplOptions = {}): Promise<void> {
+		const rl = readline.createInterface({
+			input: options.input ?? process.stdin,
+			output: options.output ?? process.stdout,
+			terminal: options.terminal,
+			prompt: options.prompt ?? `${this._name || "program"}> `,
+			historySize: options.historySize,
+			completer: (
+				line: string,
+				callback: (err: Error | null, result: [string[], string]) => void,
+			) => this.#replCompleter(line, callback),
+		});
+		rl.on("SIGINT", () => rl.close());
+
+		rl.prompt();
+		for await (const line of rl) {
+			await this.#replLine(line);
+			rl.prompt();
+		}
+	}
+
+	/**
+	 * Parse a line from the REPL, displaying any error rather than exiting.
+	 */
+	async #replLine(line: string) {
+		if (!line.trim()) return;
+		this.#inRepl = true;
+		try {
+			await this.parseAsync(line, { from: "string" });
+		} catch (err) {
+			// CommanderError has already been displayed, such as the help or a usage error.
+			if (!(err instanceof CommanderError)) {
+				const message = err instanceof Error ? err.message : String(err);
+				this.#outputConfiguration.outputError(
+					`${message}\n`,
+					this.#outputConfiguration.writeErr,
+				);
+			}
+		} finally {
+			this.#inRepl = false;
+		}
+	}
+
+	/**
+	 * Complete the last word of the REPL line using the subcommands, options, and completion callbacks.
+	 */
+	#replCompleter(
+		line: string,
+		callback: (err: Error | null, result: [string[], string]) => void,
+	) {
+		const partial = /\S*$/.exec(line)?.[0] ?? "";
+		let words: string[];
+		try {
+			words = tokenizeArgs(line);
+		} catch {
+			callback(null, [[], partial]);
+			return;
+		}
+		if (partial === "") words.push("");
+		Promise.resolve(this.getCompletions(words)).then(
+			(candidates) => callback(null, [candidates, partial]),
+			(err) => callback(err, [[], partial]),
+		);
+	}
+
+	/**
+	 * Generate man pages in roff format for this command and its visible subcommands, with one page per command.
+	 * The pages are generated using the same Help methods as the help, so include the defaults, choices, and environment variables.
+	 *
+	 * @example
+	 * for (const page of program.manPages({ source: 'my-program 1.0.0' })) {
+	 *   fs.writeFileSync(path.join('man', page.name), page.content);
+	 * }
+	 */
+	manPages(options?: ManPageOptions): ManPage[] {
+		return new ManFormatter(options).formatManPages(
+			this as unknown as Command,
+			this.createHelp(),
+		);
+	}
+
+	/**
+	 * Generate Markdown reference documentation for this command and its visible subcommands,
+	 * including the arguments, options, and the text added using `.addHelpText()`.
+	 * The subcommands are linked from the parent command. By default returns a single page,
+	 * or pass `{ split: true }` for one page per command.
+	 *
+	 * @example
+	 * for (const page of program.markdownPages({ split: true })) {
+	 *   fs.writeFileSync(path.join('docs', page.name), page.content);
+	 * }
+	 */
+	markdownPages(options?: MarkdownOptions): MarkdownPage[] {
+		return new MarkdownFormatter(options).formatPages(
+			this as unknown as Command,
+			this.createHelp(),
+		);
+	}
+
+	/**
+	 * Describe this command and its subcommands as plain data, including the
+	 * aliases, arguments, and options. Hidden commands and options are not included,
+	 * unless you pass `{ includeHidden: true }`.
+	 *
+	 * @example
+	 * const description = program.describe();
+	 * const names = description.commands.map((cmd) => cmd.name);
+	 */
+	describe(options?: DescribeOptions): CommandDescription {
+		return describeCommand(
+			this as unknown as Command,
+			this.createHelp(),
+			options,
+		);
+	}
+
+	/**
+	 * Describe this command for `JSON.stringify()`. Same as `.describe()`.
+	 *
+	 * @example
+	 * fs.writeFileSync('cli.json', JSON.stringify(program, null, 2));
+	 */
+	toJSON(): CommandDescription {
+		return this.describe();
+	}
+
 	/**
 	 * Return program help documentation.
 	 *
@@ -2418,7 +4218,7 @@ Expecting one of '${allowedValues.join("', '")}'`);
 	 * @param contextOptions - pass {error:true} to write to stderr instead of stdout
 	 */
 	help(contextOptions?: HelpContext) {
-		this.outputHelp(contextOptions);
+		if (!this.#getParseOnly()) this.outputHelp(contextOptions);
 		let exitCode = process.exitCode || 0;
 		if (
 			exitCode === 0 &&
@@ -2482,13 +4282,42 @@ Expecting one of '${allowedValues.join("', '")}'`);
 		const helpOption = this._getHelpOption();
 		const helpRequested = helpOption && args.find((arg) => helpOption.is(arg));
 		if (helpRequested) {
-			this.outputHelp();
+			if (!this.#getParseOnly()) this.outputHelp();
 			// (Do not have all displayed text available so only passing placeholder.)
 			this.#exit(0, "commander.helpDisplayed", "(outputHelp)");
 		}
 	}
 }
 
+interface ConfigLayer {
+	file: string;
+	values: Record<string, unknown>;
+}
+
+function isConfigObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read an option value from a file, or from stdin for `-`, without the trailing newline.
+ */
+function readValueFile(file: string): string {
+	try {
+		const content = fs.readFileSync(file === "-" ? 0 : file, "utf8");
+		return content.replace(/\r?\n$/, "");
+	} catch (err) {
+		const reason = err instanceof Error ? err.message : String(err);
+		throw new InvalidArgumentError(`Cannot read file. ${reason}`);
+	}
+}
+
+/**
+ * Convert a command or option name to the form used in environment variable names, like `DRY_RUN` for `dry-run`.
+ */
+function envVarName(name: string): string {
+	return name.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
 /**
  * Scan arguments and increment port number for inspect calls (to avoid conflicts when spawning new command).
  *
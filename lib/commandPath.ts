@@ -0,0 +1,15 @@
+import type { Command } from "./command";
+
+/**
+ * Get the names of the command and its ancestors, starting with the program.
+ * Used for the page names and headings in the generated documentation.
+ */
+function commandPath(cmd: Command): string[] {
+	const names: string[] = [];
+	for (let command: Command | null = cmd; command; command = command.parent) {
+		names.unshift(command._name);
+	}
+	return names;
+}
+
+export { commandPath };
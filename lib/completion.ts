@@ -0,0 +1,403 @@
+import type { Command } from "./command";
+import type { Help } from "./help";
+
+type CompletionShell = "bash" | "zsh" | "fish";
+
+type CompletionFn = (
+	partial: string,
+	command: Command,
+) => readonly string[] | Promise<readonly string[]>;
+
+const completionShells: CompletionShell[] = ["bash", "zsh", "fish"];
+
+/**
+ * Hidden flag used by the dynamic completion scripts to ask the program for the candidates.
+ */
+const dynamicCompletionFlag = "--get-completions";
+
+interface CompletionOption {
+	flags: string[];
+	description: string;
+	takesValue: boolean;
+	choices?: string[];
+}
+
+interface CompletionNode {
+	path: string;
+	names: string[];
+	description: string;
+	commands: CompletionNode[];
+	options: CompletionOption[];
+	argChoices: string[];
+}
+
+/**
+ * Walk the visible commands, options, and arguments to build the data used by the completion scripts.
+ * Uses the Help visibility rules so hidden commands and options are not offered.
+ */
+function buildCompletionNode(
+	cmd: Command,
+	helper: Help,
+	parentPath?: string,
+): CompletionNode {
+	const path = parentPath ? `${parentPath} ${cmd._name}` : cmd._name;
+	const options = helper
+		.visibleOptions(cmd)
+		.concat(helper.visibleGlobalOptions(cmd))
+		.map((option) => ({
+			flags: [option.long, option.short].filter((flag): flag is string =>
+				Boolean(flag),
+			),
+			description: option.description,
+			takesValue: option.required || option.optional,
+			choices: option.argChoices,
+		}));
+	const argChoices = cmd.registeredArguments.flatMap(
+		(argument) => argument.argChoices ?? [],
+	);
+
+	return {
+		path,
+		names: [cmd._name].concat(cmd._aliases),
+		description: helper.subcommandDescription(cmd),
+		commands: helper
+			.visibleCommands(cmd)
+			.map((sub) => buildCompletionNode(sub as Command, helper, path)),
+		options,
+		argChoices,
+	};
+}
+
+function flattenNodes(node: CompletionNode): CompletionNode[] {
+	return [node].concat(...node.commands.map((sub) => flattenNodes(sub)));
+}
+
+function quote(str: string) {
+	return `'${str.replace(/'/g, "'\\''")}'`;
+}
+
+function firstLine(str: string) {
+	return str.split("\n")[0];
+}
+
+/**
+ * Shell function names can not contain unknown characters from the program name.
+ */
+function functionName(node: CompletionNode) {
+	return `_${node.path.replace(/[^A-Za-z0-9_]/g, "_")}_completion`;
+}
+
+/**
+ * Case patterns which move the tracked command path down to a subcommand when its name or alias is seen.
+ */
+function pathTransitions(root: CompletionNode, indent: string): string[] {
+	return flattenNodes(root)
+		.filter((node) => node !== root)
+		.map((node) => {
+			const parentPath = node.path.slice(
+				0,
+				node.path.length - node.names[0].length - 1,
+			);
+			const patterns = node.names
+				.map((name) => quote(`${parentPath} ${name}`))
+				.join("|");
+			return `${indent}${patterns}) cmdpath=${quote(node.path)} ;;`;
+		});
+}
+
+function bashScript(root: CompletionNode): string {
+	const fn = functionName(root);
+	const lines = [
+		`# bash completion for ${root.path}`,
+		"#",
+		"# Install by sourcing this script from ~/.bashrc",
+		`${fn}() {`,
+		"\tlocal cur prev cmdpath i",
+		'\tcur="${COMP_WORDS[COMP_CWORD]}"',
+		'\tprev="${COMP_WORDS[COMP_CWORD-1]}"',
+		`\tcmdpath=${quote(root.path)}`,
+		"\tfor ((i = 1; i < COMP_CWORD; i++)); do",
+		'\t\tcase "$cmdpath ${COMP_WORDS[i]}" in',
+		...pathTransitions(root, "\t\t\t"),
+		"\t\tesac",
+		"\tdone",
+		'\tcase "$cmdpath" in',
+	];
+	for (const node of flattenNodes(root)) {
+		lines.push(`\t\t${quote(node.path)})`);
+		const valueOptions = node.options.filter((option) => option.takesValue);
+		if (valueOptions.length) {
+			lines.push('\t\t\tcase "$prev" in');
+			for (const option of valueOptions) {
+				const reply = option.choices
+					? `COMPREPLY=($(compgen -W ${quote(option.choices.join(" "))} -- "$cur"))`
+					: "COMPREPLY=()";
+				lines.push(`\t\t\t\t${option.flags.join("|")}) ${reply}; return 0 ;;`);
+			}
+			lines.push("\t\t\tesac");
+		}
+		const flags = node.options.flatMap((option) => option.flags);
+		const words = node.commands
+			.flatMap((sub) => sub.names)
+			.concat(node.argChoices);
+		lines.push(
+			'\t\t\tif [[ "$cur" == -* ]]; then',
+			`\t\t\t\tCOMPREPLY=($(compgen -W ${quote(flags.join(" "))} -- "$cur"))`,
+			"\t\t\telse",
+			`\t\t\t\tCOMPREPLY=($(compgen -W ${quote(words.join(" "))} -- "$cur"))`,
+			"\t\t\tfi",
+			"\t\t\t;;",
+		);
+	}
+	lines.push(
+		"\tesac",
+		"\treturn 0",
+		"}",
+		`complete -o default -F ${fn} ${root.path}`,
+		"",
+	);
+	return lines.join("\n");
+}
+
+function zshDescribeItem(name: string, description: string) {
+	const escapedName = name.replace(/:/g, "\\:");
+	const text = firstLine(description);
+	return quote(text ? `${escapedName}:${text}` : escapedName);
+}
+
+function zshScript(root: CompletionNode): string {
+	const fn = functionName(root);
+	const lines = [
+		`#compdef ${root.path}`,
+		"#",
+		`# Install by sourcing this script from ~/.zshrc, or save as _${root.path} in your $fpath`,
+		`${fn}() {`,
+		"\tlocal cur prev cmdpath i",
+		"\tlocal -a items",
+		'\tcur="${words[CURRENT]}"',
+		'\tprev="${words[CURRENT-1]}"',
+		`\tcmdpath=${quote(root.path)}`,
+		"\tfor ((i = 2; i < CURRENT; i++)); do",
+		'\t\tcase "$cmdpath ${words[i]}" in',
+		...pathTransitions(root, "\t\t\t"),
+		"\t\tesac",
+		"\tdone",
+		'\tcase "$cmdpath" in',
+	];
+	for (const node of flattenNodes(root)) {
+		lines.push(`\t\t${quote(node.path)})`);
+		const valueOptions = node.options.filter((option) => option.takesValue);
+		if (valueOptions.length) {
+			lines.push('\t\t\tcase "$prev" in');
+			for (const option of valueOptions) {
+				const reply = option.choices
+					? `compadd -- ${option.choices.map(quote).join(" ")}`
+					: "_files";
+				lines.push(`\t\t\t\t${option.flags.join("|")}) ${reply}; return ;;`);
+			}
+			lines.push("\t\t\tesac");
+		}
+		const optionItems = node.options.flatMap((option) =>
+			option.flags.map((flag) => zshDescribeItem(flag, option.description)),
+		);
+		lines.push(
+			'\t\t\tif [[ "$cur" == -* ]]; then',
+			`\t\t\t\titems=(${optionItems.join(" ")})`,
+			"\t\t\t\t_describe -t options 'option' items",
+		);
+		if (node.commands.length) {
+			const commandItems = node.commands.flatMap((sub) =>
+				sub.names.map((name) => zshDescribeItem(name, sub.description)),
+			);
+			lines.push(
+				"\t\t\telse",
+				`\t\t\t\titems=(${commandItems.join(" ")})`,
+				"\t\t\t\t_describe -t commands 'command' items",
+			);
+		} else if (node.argChoices.length) {
+			lines.push(
+				"\t\t\telse",
+				`\t\t\t\tcompadd -- ${node.argChoices.map(quote).join(" ")}`,
+			);
+		} else {
+			lines.push("\t\t\telse", "\t\t\t\t_files");
+		}
+		lines.push("\t\t\tfi", "\t\t\t;;");
+	}
+	lines.push(
+		"\tesac",
+		"}",
+		`if [ "$funcstack[1]" = ${quote(fn)} ]; then`,
+		`\t${fn} "$@"`,
+		"else",
+		`\tcompdef ${fn} ${root.path}`,
+		"fi",
+		"",
+	);
+	return lines.join("\n");
+}
+
+function fishQuote(str: string) {
+	return `'${str.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function fishScript(root: CompletionNode): string {
+	const fn = `__${root.path.replace(/[^A-Za-z0-9_]/g, "_")}_completion_path`;
+	const lines = [
+		`# fish completion for ${root.path}`,
+		"#",
+		`# Install by saving as ~/.config/fish/completions/${root.path}.fish`,
+		`function ${fn}`,
+		`\tset -l cmdpath ${fishQuote(root.path)}`,
+		"\tfor word in (commandline -opc)[2..-1]",
+		'\t\tswitch "$cmdpath $word"',
+	];
+	for (const node of flattenNodes(root).filter((node) => node !== root)) {
+		const parentPath = node.path.slice(
+			0,
+			node.path.length - node.names[0].length - 1,
+		);
+		const patterns = node.names
+			.map((name) => fishQuote(`${parentPath} ${name}`))
+			.join(" ");
+		lines.push(
+			`\t\t\tcase ${patterns}`,
+			`\t\t\t\tset cmdpath ${fishQuote(node.path)}`,
+		);
+	}
+	lines.push("\t\tend", "\tend", "\techo $cmdpath", "end");
+
+	for (const node of flattenNodes(root)) {
+		const condition = `-n ${fishQuote(`test (${fn}) = ${fishQuote(node.path)}`)}`;
+		const prefix = `complete -c ${root.path} ${condition}`;
+		if (node.commands.length || node.argChoices.length) {
+			lines.push(`${prefix} -f`);
+		}
+		for (const sub of node.commands) {
+			for (const name of sub.names) {
+				const description = firstLine(sub.description);
+				lines.push(
+					`${prefix} -a ${fishQuote(name)}${description ? ` -d ${fishQuote(description)}` : ""}`,
+				);
+			}
+		}
+		if (node.argChoices.length) {
+			lines.push(`${prefix} -a ${fishQuote(node.argChoices.join(" "))}`);
+		}
+		for (const option of node.options) {
+			const flags = option.flags
+				.map((flag) =>
+					flag.startsWith("--") ? `-l ${flag.slice(2)}` : `-s ${flag.slice(1)}`,
+				)
+				.join(" ");
+			let value = "";
+			if (option.choices) {
+				value = ` -x -a ${fishQuote(option.choices.join(" "))}`;
+			} else if (option.takesValue) {
+				value = " -r";
+			}
+			const description = firstLine(option.description);
+			lines.push(
+				`${prefix} ${flags}${value}${description ? ` -d ${fishQuote(description)}` : ""}`,
+			);
+		}
+	}
+	lines.push("");
+	return lines.join("\n");
+}
+
+/**
+ * Dynamic scripts pass the words before the cursor and the partial word to the program,
+ * which writes the candidates one per line.
+ */
+function dynamicBashScript(program: string, flag: string): string {
+	const fn = `_${program.replace(/[^A-Za-z0-9_]/g, "_")}_completion`;
+	return [
+		`# bash completion for ${program}`,
+		"#",
+		"# Install by sourcing this script from ~/.bashrc",
+		`${fn}() {`,
+		"\tlocal IFS=$'\\n'",
+		`\tCOMPREPLY=($(${program} ${flag} "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))`,
+		"\treturn 0",
+		"}",
+		`complete -o default -F ${fn} ${program}`,
+		"",
+	].join("\n");
+}
+
+function dynamicZshScript(program: string, flag: string): string {
+	const fn = `_${program.replace(/[^A-Za-z0-9_]/g, "_")}_completion`;
+	return [
+		`#compdef ${program}`,
+		"#",
+		`# Install by sourcing this script from ~/.zshrc, or save as _${program} in your $fpath`,
+		`${fn}() {`,
+		"\tlocal -a candidates",
+		`\tcandidates=(\${(f)"$(${program} ${flag} "\${(@)words[2,CURRENT]}" 2>/dev/null)"})`,
+		"\tif (( ${#candidates} )); then",
+		"\t\tcompadd -- $candidates",
+		"\telse",
+		"\t\t_files",
+		"\tfi",
+		"}",
+		`if [ "$funcstack[1]" = ${quote(fn)} ]; then`,
+		`\t${fn} "$@"`,
+		"else",
+		`\tcompdef ${fn} ${program}`,
+		"fi",
+		"",
+	].join("\n");
+}
+
+function dynamicFishScript(program: string, flag: string): string {
+	const fn = `__${program.replace(/[^A-Za-z0-9_]/g, "_")}_completions`;
+	return [
+		`# fish completion for ${program}`,
+		"#",
+		`# Install by saving as ~/.config/fish/completions/${program}.fish`,
+		`function ${fn}`,
+		`\t${program} ${flag} (commandline -opc)[2..-1] (commandline -ct) 2>/dev/null`,
+		"end",
+		`complete -c ${program} -f -a ${fishQuote(`(${fn})`)}`,
+		"",
+	].join("\n");
+}
+
+/**
+ * Generate a completion script for the given shell from the command and its subcommands.
+ * When `dynamicFlag` is specified, the script instead calls the program with the flag to get the candidates.
+ */
+function completionScript(
+	cmd: Command,
+	helper: Help,
+	shell: CompletionShell,
+	dynamicFlag?: string,
+): string {
+	if (!completionShells.includes(shell)) {
+		throw new Error(`Unexpected value for shell passed to completionScript : '${shell}'.
+Expecting one of '${completionShells.join("', '")}'`);
+	}
+	if (dynamicFlag) {
+		switch (shell) {
+			case "bash":
+				return dynamicBashScript(cmd._name, dynamicFlag);
+			case "zsh":
+				return dynamicZshScript(cmd._name, dynamicFlag);
+			default:
+				return dynamicFishScript(cmd._name, dynamicFlag);
+		}
+	}
+	const root = buildCompletionNode(cmd, helper);
+	switch (shell) {
+		case "bash":
+			return bashScript(root);
+		case "zsh":
+			return zshScript(root);
+		default:
+			return fishScript(root);
+	}
+}
+
+export { completionScript, completionShells, dynamicCompletionFlag };
+export type { CompletionFn, CompletionShell };
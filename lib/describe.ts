@@ -0,0 +1,109 @@
+import type {
+	ArgumentDescription,
+	CommandDescription,
+	DescribeOptions,
+	OptionDescription,
+} from "../typings";
+import type { Argument } from "./argument";
+import type { Command } from "./command";
+import type { Help } from "./help";
+import type { Option } from "./option";
+
+/**
+ * Describe an option. Optional properties are only included when they have a value,
+ * so the JSON output does not change when unrelated features are added.
+ */
+function describeOption(option: Option): OptionDescription {
+	const description: OptionDescription = {
+		flags: option.flags,
+		name: option.name(),
+		attributeName: option.attributeName(),
+		description: option.description,
+		required: option.required,
+		optional: option.optional,
+		variadic: option.variadic,
+		negate: option.negate,
+		mandatory: option.mandatory,
+		hidden: option.hidden,
+		conflictsWith: option.conflictsWith.map(String),
+	};
+	if (option.short) description.short = option.short;
+	if (option.long) description.long = option.long;
+	if (option.defaultValue !== undefined) {
+		description.defaultValue = option.maskValue(option.defaultValue);
+	}
+	if (option.defaultValueDescription !== undefined) {
+		description.defaultValueDescription = option.maskValue(
+			option.defaultValueDescription,
+		);
+	}
+	if (option.presetArg !== undefined) {
+		description.presetArg = option.maskValue(option.presetArg);
+	}
+	if (option.secret) description.sensitive = true;
+	if (option.argChoices) description.choices = option.argChoices.slice();
+	if (option.envVar) description.envVar = option.envVar;
+	if (option.requiresOptions.length > 0) {
+		description.requires = option.requiresOptions.slice();
+	}
+	if (option.implied) description.implies = { ...option.implied };
+	return description;
+}
+
+function describeArgument(argument: Argument): ArgumentDescription {
+	const description: ArgumentDescription = {
+		name: argument.name(),
+		description: argument.description ?? "",
+		required: argument.required,
+		variadic: argument.variadic,
+	};
+	if (argument.defaultValue !== undefined) {
+		description.defaultValue = argument.defaultValue;
+	}
+	if (argument.defaultValueDescription !== undefined) {
+		description.defaultValueDescription = argument.defaultValueDescription;
+	}
+	if (argument.envVar !== undefined) description.envVar = argument.envVar;
+	if (argument.argChoices) description.choices = argument.argChoices.slice();
+	return description;
+}
+
+/**
+ * Describe the command and its subcommands using the Help visibility rules,
+ * so hidden commands and options are only included when requested.
+ */
+function describeCommand(
+	cmd: Command,
+	helper: Help,
+	options: DescribeOptions = {},
+): CommandDescription {
+	const includeHidden = !!options.includeHidden;
+
+	const commandOptions = helper.visibleOptions(cmd);
+	const commands = helper.visibleCommands(cmd) as Command[];
+	if (includeHidden) {
+		commandOptions.push(
+			...cmd.options
+				.filter((option) => option.hidden)
+				.map((option) => cmd._optionWithEnvVar(option)),
+		);
+		commands.push(...(cmd.commands as Command[]).filter((sub) => sub._hidden));
+	}
+	// Include all the arguments even without descriptions, but apply the legacy argument descriptions first.
+	helper.visibleArguments(cmd);
+
+	return {
+		name: cmd._name,
+		aliases: cmd._aliases.slice(),
+		// (the overloads for summary() do not resolve to the getter)
+		summary: (cmd as { summary(): string | undefined }).summary() ?? "",
+		description: helper.commandDescription(cmd),
+		usage: helper.commandUsage(cmd),
+		hidden: cmd._hidden,
+		arguments: cmd.registeredArguments.map(describeArgument),
+		options: commandOptions.map(describeOption),
+		commands: commands.map((sub) => describeCommand(sub, helper, options)),
+	};
+}
+
+export { describeCommand };
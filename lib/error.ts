@@ -5,6 +5,7 @@ class CommanderError extends Error {
 	code: string;
 	exitCode: number;
 	nestedError?: string;
+	errors?: CommanderError[];
 
 	/**
 	 * Constructs the CommanderError class
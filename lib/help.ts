@@ -44,7 +44,9 @@ class Help {
 	 * Get an array of the visible options. Includes a placeholder for the implicit help option, if there is one.
 	 */
 	visibleOptions(cmd: Command): Option[] {
-		const visibleOptions = cmd.options.filter((option) => !option.hidden);
+		const visibleOptions = cmd.options
+			.filter((option) => !option.hidden)
+			.map((option) => cmd._optionWithEnvVar(option));
 		// Built-in help option.
 		const helpOption = cmd._getHelpOption();
 		if (helpOption && !helpOption.hidden) {
@@ -82,9 +84,9 @@ class Help {
 			ancestorCmd;
 			ancestorCmd = ancestorCmd.parent
 		) {
-			const visibleOptions = ancestorCmd.options.filter(
-				(option) => !option.hidden,
-			);
+			const visibleOptions = ancestorCmd.options
+				.filter((option) => !option.hidden)
+				.map((option) => ancestorCmd._optionWithEnvVar(option));
 			globalOptions.push(...visibleOptions);
 		}
 		if (this.sortOptions) {
@@ -94,6 +96,28 @@ class Help {
 		return globalOptions;
 	}
 
+	/**
+	 * Group the visible items by their help group heading. The groups are in the order first used by the unsorted items,
+	 * and the items within each group are in the order of the visible items, so any sorting applies within each group.
+	 */
+	groupItems<T>(
+		unsortedItems: readonly T[],
+		visibleItems: T[],
+		getGroup: (item: T) => string,
+	): Map<string, T[]> {
+		const groupMap = new Map<string, T[]>();
+		for (const item of unsortedItems) {
+			const group = getGroup(item);
+			if (!groupMap.has(group)) groupMap.set(group, []);
+		}
+		for (const item of visibleItems) {
+			const group = getGroup(item);
+			if (!groupMap.has(group)) groupMap.set(group, []);
+			groupMap.get(group)?.push(item);
+		}
+		return groupMap;
+	}
+
 	/**
 	 * Get an array of the arguments if any have a description.
 	 */
@@ -133,6 +157,16 @@ class Help {
 	 * Get the option term to show in the list of options.
 	 */
 	optionTerm(option: Option): string {
+		if (option.isMap()) {
+			// Show the option takes key=value pairs and may be repeated, like `--label <key=value...>`.
+			return option.flags.replace(
+				/([<[])([^<[]*?)(\.\.\.)?([>\]])$/,
+				(_, open: string, value: string, _dots, close: string) => {
+					const pair = value.includes("=") ? value : "key=value";
+					return `${open}${pair}...${close}`;
+				},
+			);
+		}
 		return option.flags;
 	}
 
@@ -237,13 +271,15 @@ class Help {
 				(option.isBoolean() && typeof option.defaultValue === "boolean");
 			if (showDefault) {
 				extraInfo.push(
-					`default: ${option.defaultValueDescription || JSON.stringify(option.defaultValue)}`,
+					`default: ${option.maskValue(option.defaultValueDescription || JSON.stringify(option.defaultValue))}`,
 				);
 			}
 		}
 		// preset for boolean and negated are more for programmer than end user
 		if (option.presetArg !== undefined && option.optional) {
-			extraInfo.push(`preset: ${JSON.stringify(option.presetArg)}`);
+			extraInfo.push(
+				`preset: ${option.maskValue(JSON.stringify(option.presetArg))}`,
+			);
 		}
 		if (option.envVar !== undefined) {
 			extraInfo.push(`env: ${option.envVar}`);
@@ -271,6 +307,9 @@ class Help {
 				`default: ${argument.defaultValueDescription || JSON.stringify(argument.defaultValue)}`,
 			);
 		}
+		if (argument.envVar !== undefined) {
+			extraInfo.push(`env: ${argument.envVar}`);
+		}
 		if (extraInfo.length > 0) {
 			const extraDescripton = `(${extraInfo.join(", ")})`;
 			if (argument.description) {
@@ -328,16 +367,23 @@ class Help {
 			output = output.concat(["Arguments:", formatList(argumentList), ""]);
 		}
 
-		// Options
-		const optionList = helper.visibleOptions(cmd).map((option) => {
-			return formatItem(
-				helper.optionTerm(option),
-				helper.optionDescription(option),
-			);
+		// Options, in groups
+		const optionGroups = helper.groupItems(
+			cmd.options,
+			helper.visibleOptions(cmd),
+			(option) => option.helpGroupHeading ?? "Options",
+		);
+		optionGroups.forEach((options, group) => {
+			const optionList = options.map((option) => {
+				return formatItem(
+					helper.optionTerm(option),
+					helper.optionDescription(option),
+				);
+			});
+			if (optionList.length > 0) {
+				output = output.concat([`${group}:`, formatList(optionList), ""]);
+			}
 		});
-		if (optionList.length > 0) {
-			output = output.concat(["Options:", formatList(optionList), ""]);
-		}
 
 		if (this.showGlobalOptions) {
 			const globalOptionList = helper
@@ -357,16 +403,23 @@ class Help {
 			}
 		}
 
-		// Commands
-		const commandList = helper.visibleCommands(cmd).map((cmd) => {
-			return formatItem(
-				helper.subcommandTerm(cmd),
-				helper.subcommandDescription(cmd),
-			);
+		// Commands, in groups
+		const commandGroups = helper.groupItems(
+			cmd.commands,
+			helper.visibleCommands(cmd),
+			(sub) => sub.helpGroup() ?? "Commands",
+		);
+		commandGroups.forEach((commands, group) => {
+			const commandList = commands.map((sub) => {
+				return formatItem(
+					helper.subcommandTerm(sub),
+					helper.subcommandDescription(sub),
+				);
+			});
+			if (commandList.length > 0) {
+				output = output.concat([`${group}:`, formatList(commandList), ""]);
+			}
 		});
-		if (commandList.length > 0) {
-			output = output.concat(["Commands:", formatList(commandList), ""]);
-		}
 
 		return output.join("\n");
 	}
@@ -0,0 +1,187 @@
+import type { ManPage, ManPageOptions } from "../typings";
+import type { Command } from "./command";
+import { commandPath } from "./commandPath";
+import type { Help } from "./help";
+
+// Like Help, methods are static in style to allow override using subclass.
+class ManFormatter {
+	section = "1";
+	date: string;
+	source = "";
+	manual = "";
+
+	/**
+	 * Initialize a new `ManFormatter`, optionally with the section and the text for the page header and footer.
+	 */
+	constructor(options: ManPageOptions = {}) {
+		if (options.section !== undefined) this.section = String(options.section);
+		this.date = options.date ?? new Date().toISOString().slice(0, 10);
+		if (options.source !== undefined) this.source = options.source;
+		if (options.manual !== undefined) this.manual = options.manual;
+	}
+
+	/**
+	 * Escape text for roff, so hyphens, backslashes, and leading control characters are output literally.
+	 */
+	escape(str: string): string {
+		return str
+			.replace(/\\/g, "\\e")
+			.replace(/-/g, "\\-")
+			.replace(/^([.'])/gm, "\\&$1");
+	}
+
+	/**
+	 * Get the page name for the command, which is the command path joined with hyphens like `git-remote`.
+	 */
+	pageName(cmd: Command): string {
+		return this.commandPath(cmd).join("-");
+	}
+
+	/**
+	 * Get the names of the command and its ancestors, starting with the program.
+	 */
+	commandPath(cmd: Command): string[] {
+		return commandPath(cmd);
+	}
+
+	/**
+	 * Format a list of terms and descriptions as tagged paragraphs.
+	 */
+	formatItems(items: Array<{ term: string; description: string }>): string[] {
+		return items.flatMap(({ term, description }) => {
+			const lines = [".TP", `\\fB${this.escape(term)}\\fR`];
+			if (description) lines.push(this.escape(description));
+			return lines;
+		});
+	}
+
+	/**
+	 * Generate the man page for the command in roff format,
+	 * using the same Help methods used to generate the help.
+	 */
+	formatManPage(cmd: Command, helper: Help): string {
+		const pageName = this.pageName(cmd);
+		const quoteArg = (str: string) => `"${str.replace(/"/g, "\\(dq")}"`;
+		let output = [
+			`.TH ${[pageName.toUpperCase(), this.section, this.date, this.source, this.manual].map(quoteArg).join(" ")}`,
+		];
+
+		// Name
+		const summary = helper.subcommandDescription(cmd).split("\n")[0];
+		output = output.concat([
+			".SH NAME",
+			summary
+				? `${this.escape(pageName)} \\- ${this.escape(summary)}`
+				: this.escape(pageName),
+		]);
+
+		// Synopsis
+		// @ts-expect-error: because overloaded return type
+		const usage: string = cmd.usage();
+		output = output.concat([
+			".SH SYNOPSIS",
+			`.B ${this.escape(this.commandPath(cmd).join(" "))}`,
+		]);
+		if (usage) output.push(this.escape(usage));
+
+		// Description
+		const commandDescription = helper.commandDescription(cmd);
+		if (commandDescription.length > 0) {
+			output = output.concat([
+				".SH DESCRIPTION",
+				this.escape(commandDescription),
+			]);
+		}
+
+		// Arguments
+		const argumentList = helper.visibleArguments(cmd).map((argument) => ({
+			term: helper.argumentTerm(argument),
+			description: helper.argumentDescription(argument),
+		}));
+		if (argumentList.length > 0) {
+			output = output.concat([
+				".SH ARGUMENTS",
+				...this.formatItems(argumentList),
+			]);
+		}
+
+		// Options
+		const optionList = helper.visibleOptions(cmd).map((option) => ({
+			term: helper.optionTerm(option),
+			description: helper.optionDescription(option),
+		}));
+		if (optionList.length > 0) {
+			output = output.concat([".SH OPTIONS", ...this.formatItems(optionList)]);
+		}
+
+		// Global options, like in the help when showGlobalOptions is configured. (Not including help.)
+		const globalOptionList = helper.visibleGlobalOptions(cmd).map((option) => ({
+			term: helper.optionTerm(option),
+			description: helper.optionDescription(option),
+		}));
+		if (globalOptionList.length > 0) {
+			output = output.concat([
+				".SH GLOBAL OPTIONS",
+				...this.formatItems(globalOptionList),
+			]);
+		}
+
+		// Commands
+		const subcommands = helper.visibleCommands(cmd);
+		const commandList = subcommands.map((sub) => ({
+			term: helper.subcommandTerm(sub as Command),
+			description: helper.subcommandDescription(sub as Command),
+		}));
+		if (commandList.length > 0) {
+			output = output.concat([
+				".SH COMMANDS",
+				...this.formatItems(commandList),
+			]);
+		}
+
+		// See also the pages for the parent command and the subcommands.
+		const related = (cmd.parent ? [cmd.parent] : []).concat(
+			this.subcommandsWithPages(cmd, helper),
+		);
+		if (related.length > 0) {
+			output = output.concat([
+				".SH SEE ALSO",
+				related
+					.map(
+						(relatedCmd) =>
+							`\\fB${this.escape(this.pageName(relatedCmd))}\\fR(${this.section})`,
+					)
+					.join(",\n"),
+			]);
+		}
+
+		return `${output.join("\n")}\n`;
+	}
+
+	/**
+	 * Generate the man pages for the command and its visible subcommands.
+	 */
+	formatManPages(cmd: Command, helper: Help): ManPage[] {
+		const page = {
+			name: `${this.pageName(cmd)}.${this.section}`,
+			content: this.formatManPage(cmd, helper),
+		};
+		return [page].concat(
+			...this.subcommandsWithPages(cmd, helper).map((sub) =>
+				this.formatManPages(sub, sub.createHelp()),
+			),
+		);
+	}
+
+	/**
+	 * Get the visible subcommands which have their own page, which excludes the implicit help command.
+	 */
+	subcommandsWithPages(cmd: Command, helper: Help): Command[] {
+		const helpCommand = cmd._getHelpCommand();
+		return (helper.visibleCommands(cmd) as Command[]).filter(
+			(sub) => sub !== helpCommand,
+		);
+	}
+}
+
+export { ManFormatter };
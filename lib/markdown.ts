@@ -0,0 +1,238 @@
+import type { MarkdownOptions, MarkdownPage } from "../typings";
+import type { Command } from "./command";
+import { commandPath } from "./commandPath";
+import type { Help } from "./help";
+
+// Like Help, methods are static in style to allow override using subclass.
+class MarkdownFormatter {
+	split = false;
+
+	/**
+	 * Initialize a new `MarkdownFormatter`, optionally splitting the documentation into one page per command.
+	 */
+	constructor(options: MarkdownOptions = {}) {
+		if (options.split !== undefined) this.split = options.split;
+	}
+
+	/**
+	 * Escape text for a table cell, so pipes do not end the cell and line breaks do not end the row.
+	 */
+	escapeCell(str: string): string {
+		return str.replace(/\|/g, "\\|").replace(/\n/g, "<br>");
+	}
+
+	/**
+	 * Get the names of the command and its ancestors, starting with the program.
+	 */
+	commandPath(cmd: Command): string[] {
+		return commandPath(cmd);
+	}
+
+	/**
+	 * Get the page name for the command, which is the command path joined with hyphens like `git-remote.md`.
+	 */
+	pageName(cmd: Command): string {
+		return `${this.commandPath(cmd).join("-")}.md`;
+	}
+
+	/**
+	 * Get the link to the documentation for the command, either to the page or to the heading on the same page.
+	 */
+	commandLink(cmd: Command): string {
+		if (this.split) return this.pageName(cmd);
+		// Heading anchor like GitHub, lowercase with spaces replaced by hyphens.
+		const slug = this.commandPath(cmd)
+			.join(" ")
+			.toLowerCase()
+			.replace(/[^\w\- ]/g, "")
+			.replace(/ /g, "-");
+		return `#${slug}`;
+	}
+
+	/**
+	 * Get the text added using `.addHelpText()` for the given position, by emitting the help event with a capturing context.
+	 */
+	helpText(
+		cmd: Command,
+		position: "beforeAll" | "before" | "after" | "afterAll",
+	): string {
+		let text = "";
+		const context = {
+			error: false,
+			command: cmd,
+			write: (str: string) => {
+				text += str;
+				return true;
+			},
+		};
+		cmd.emit(`${position}Help`, context);
+		// Blank lines are often used to separate the text from the help, but are not wanted in a code block.
+		return text.replace(/^\n+/, "").trimEnd();
+	}
+
+	/**
+	 * Format the terms and descriptions as a table.
+	 */
+	formatTable(
+		heading: [string, string],
+		rows: Array<{ term: string; description: string }>,
+	): string[] {
+		return [
+			`| ${heading[0]} | ${heading[1]} |`,
+			"| --- | --- |",
+			...rows.map(
+				({ term, description }) =>
+					`| ${this.escapeCell(term)} | ${this.escapeCell(description)} |`,
+			),
+		];
+	}
+
+	/**
+	 * Generate the Markdown documentation for the command, using the same Help methods used to generate the help.
+	 *
+	 * @param level - heading level for the command
+	 */
+	formatCommand(cmd: Command, helper: Help, level = 1): string {
+		const heading = (depth: number, text: string) =>
+			`${"#".repeat(Math.min(depth, 6))} ${text}`;
+		const codeBlock = (text: string) => ["```", text, "```"];
+		const code = (text: string) => `\`${text}\``;
+
+		let output = [heading(level, this.commandPath(cmd).join(" ")), ""];
+
+		const commandDescription = helper.commandDescription(cmd);
+		if (commandDescription.length > 0) {
+			output = output.concat([commandDescription, ""]);
+		}
+
+		const beforeText = [
+			this.helpText(cmd, "beforeAll"),
+			this.helpText(cmd, "before"),
+		]
+			.filter((text) => text)
+			.join("\n");
+		if (beforeText) output = output.concat(codeBlock(beforeText), "");
+
+		output = output.concat([
+			heading(level + 1, "Usage"),
+			"",
+			...codeBlock(helper.commandUsage(cmd)),
+			"",
+		]);
+
+		// Arguments
+		const argumentList = helper.visibleArguments(cmd).map((argument) => ({
+			term: code(helper.argumentTerm(argument)),
+			description: helper.argumentDescription(argument),
+		}));
+		if (argumentList.length > 0) {
+			output = output.concat([
+				heading(level + 1, "Arguments"),
+				"",
+				...this.formatTable(["Argument", "Description"], argumentList),
+				"",
+			]);
+		}
+
+		// Options
+		const optionList = helper.visibleOptions(cmd).map((option) => ({
+			term: code(helper.optionTerm(option)),
+			description: helper.optionDescription(option),
+		}));
+		if (optionList.length > 0) {
+			output = output.concat([
+				heading(level + 1, "Options"),
+				"",
+				...this.formatTable(["Option", "Description"], optionList),
+				"",
+			]);
+		}
+
+		const globalOptionList = helper.visibleGlobalOptions(cmd).map((option) => ({
+			term: code(helper.optionTerm(option)),
+			description: helper.optionDescription(option),
+		}));
+		if (globalOptionList.length > 0) {
+			output = output.concat([
+				heading(level + 1, "Global Options"),
+				"",
+				...this.formatTable(["Option", "Description"], globalOptionList),
+				"",
+			]);
+		}
+
+		// Commands, linked to their documentation.
+		const documented = this.subcommandsWithDocs(cmd, helper);
+		const commandList = helper.visibleCommands(cmd).map((sub) => {
+			const term = code(helper.subcommandTerm(sub as Command));
+			return {
+				term: documented.includes(sub as Command)
+					? `[${term}](${this.commandLink(sub as Command)})`
+					: term,
+				description: helper.subcommandDescription(sub as Command),
+			};
+		});
+		if (commandList.length > 0) {
+			output = output.concat([
+				heading(level + 1, "Commands"),
+				"",
+				...this.formatTable(["Command", "Description"], commandList),
+				"",
+			]);
+		}
+
+		const afterText = [
+			this.helpText(cmd, "after"),
+			this.helpText(cmd, "afterAll"),
+		]
+			.filter((text) => text)
+			.join("\n");
+		if (afterText) output = output.concat(codeBlock(afterText), "");
+
+		return output.join("\n");
+	}
+
+	/**
+	 * Generate the Markdown documentation for the command and its visible subcommands,
+	 * either as a single page or as one page per command.
+	 */
+	formatPages(cmd: Command, helper: Help): MarkdownPage[] {
+		const collect = (
+			command: Command,
+			commandHelper: Help,
+			level: number,
+		): Array<{ command: Command; content: string }> => {
+			const content = this.formatCommand(command, commandHelper, level);
+			return [{ command, content }].concat(
+				...this.subcommandsWithDocs(command, commandHelper).map((sub) =>
+					collect(sub, sub.createHelp(), this.split ? level : level + 1),
+				),
+			);
+		};
+		const docs = collect(cmd, helper, 1);
+		if (this.split) {
+			return docs.map(({ command, content }) => ({
+				name: this.pageName(command),
+				content,
+			}));
+		}
+		return [
+			{
+				name: this.pageName(cmd),
+				content: docs.map(({ content }) => content).join("\n"),
+			},
+		];
+	}
+
+	/**
+	 * Get the visible subcommands which have their own documentation, which excludes the implicit help command.
+	 */
+	subcommandsWithDocs(cmd: Command, helper: Help): Command[] {
+		const helpCommand = cmd._getHelpCommand();
+		return (helper.visibleCommands(cmd) as Command[]).filter(
+			(sub) => sub !== helpCommand,
+		);
+	}
+}
+
+export { MarkdownFormatter };
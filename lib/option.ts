@@ -1,4 +1,21 @@
-import type { OptionValues } from "../typings";
+import type {
+	MapDuplicateKeys,
+	MapOptions,
+	NumberParserOptions,
+	OptionValues,
+	StandardSchemaV1,
+	UrlParserOptions,
+} from "../typings";
+import type { CompletionFn } from "./completion";
+import {
+	booleanParser,
+	bytesParser,
+	dateParser,
+	durationParser,
+	floatParser,
+	intParser,
+	urlParser,
+} from "./parsers.js";
 
 const { InvalidArgumentError } = require("./error.js");
 
@@ -28,9 +45,20 @@ class Option<
 	envVar?: string = undefined;
 	parseArg?: <T>(value: string, previous: T) => T = undefined;
 	hidden = false;
+	secret = false; // The value is sensitive, like a password or token.
 	argChoices?: string[] = undefined;
 	conflictsWith: unknown[] = [];
+	requiresOptions: string[] = [];
+	requiredCondition?: OptionValues | ((optionValues: OptionValues) => boolean) =
+		undefined;
 	implied?: OptionValues = undefined;
+	completer?: CompletionFn = undefined;
+	valueSchema?: StandardSchemaV1 = undefined;
+	helpGroupHeading?: string = undefined;
+	mapDuplicates?: MapDuplicateKeys = undefined; // Set for a map option, which collects key=value pairs.
+	counting = false; // Each use of the option increments the value, like for verbosity levels.
+	fileFlags?: string = undefined; // Flags for the companion option to read the value from a file.
+	fileValuePrefix?: string = undefined; // Read the value from a file when the option-argument has this prefix.
 
 	/**
 	 * Initialize a new `Option` with the given `flags` and `description`.
@@ -56,6 +84,11 @@ class Option<
 		if (this.long) {
 			this.negate = this.long.startsWith("--no-");
 		}
+
+		// A map option is declared with a key=value placeholder, like `--label <key=value...>`.
+		if (/[<[][\w-]+=[\w-]+(\.\.\.)?[>\]]$/.test(flags)) {
+			this.map();
+		}
 	}
 
 	/**
@@ -100,6 +133,35 @@ class Option<
 		return this;
 	}
 
+	/**
+	 * Add option name(s) that are required when this option is used.
+	 * An error will be displayed if a required option does not have a value during parsing.
+	 *
+	 * @example
+	 * new Option('--key <file>').requires('cert');
+	 *
+	 * @param names
+	 */
+	requires(names: string | string[]): this {
+		this.requiresOptions = this.requiresOptions.concat(names);
+		return this;
+	}
+
+	/**
+	 * Make the option mandatory when the other option values match, or when the predicate returns true.
+	 * The predicate is called with the option values after parsing.
+	 *
+	 * @example
+	 * new Option('--region <name>').requiredIf({ provider: 'aws' });
+	 * new Option('--region <name>').requiredIf((opts) => opts.provider !== 'local');
+	 */
+	requiredIf(
+		condition: OptionValues | ((optionValues: OptionValues) => boolean),
+	): this {
+		this.requiredCondition = condition;
+		return this;
+	}
+
 	/**
 	 * Specify implied option values for when this option is set and the implied options are not.
 	 *
@@ -144,6 +206,193 @@ class Option<
 		return this;
 	}
 
+	/**
+	 * Parse the value as an integer, optionally within a range.
+	 *
+	 * @example
+	 * new Option('-p, --port <number>').int({ min: 1, max: 65535 });
+	 */
+	int(
+		options?: NumberParserOptions,
+	): Option<Usage, PresetT, DefaultT, number, Mandatory, undefined> {
+		return this.#typedParser(intParser(options));
+	}
+
+	/**
+	 * Parse the value as a number, optionally within a range.
+	 */
+	float(
+		options?: NumberParserOptions,
+	): Option<Usage, PresetT, DefaultT, number, Mandatory, undefined> {
+		return this.#typedParser(floatParser(options));
+	}
+
+	/**
+	 * Parse the value as a boolean, accepting true/false, yes/no, on/off, and 1/0 ignoring case.
+	 */
+	boolean(): Option<Usage, PresetT, DefaultT, boolean, Mandatory, undefined> {
+		return this.#typedParser(booleanParser());
+	}
+
+	/**
+	 * Parse the value as a duration like `500ms`, `30s`, or `1h30m`, in milliseconds.
+	 */
+	duration(
+		options?: NumberParserOptions,
+	): Option<Usage, PresetT, DefaultT, number, Mandatory, undefined> {
+		return this.#typedParser(durationParser(options));
+	}
+
+	/**
+	 * Parse the value as a size like `512`, `10KB`, or `1.5GiB`, in bytes.
+	 */
+	bytes(
+		options?: NumberParserOptions,
+	): Option<Usage, PresetT, DefaultT, number, Mandatory, undefined> {
+		return this.#typedParser(bytesParser(options));
+	}
+
+	/**
+	 * Parse the value as a URL, optionally restricting the protocols.
+	 *
+	 * @example
+	 * new Option('--endpoint <url>').url({ protocols: ['https:'] });
+	 */
+	url(
+		options?: UrlParserOptions,
+	): Option<Usage, PresetT, DefaultT, URL, Mandatory, undefined> {
+		return this.#typedParser(urlParser(options));
+	}
+
+	/**
+	 * Parse the value as a date, like `2024-01-31`.
+	 */
+	date(): Option<Usage, PresetT, DefaultT, Date, Mandatory, undefined> {
+		return this.#typedParser(dateParser());
+	}
+
+	/**
+	 * Collect key=value pairs into an object. The option may be repeated, and a value may hold
+	 * several pairs separated by commas, like `--label a=1,b=2`.
+	 * When the duplicates are collected, every key holds an array of values.
+	 *
+	 * @example
+	 * new Option('--label <label>').map({ duplicates: 'error' });
+	 */
+	map<Duplicates extends MapDuplicateKeys = "last">(
+		options: MapOptions & { duplicates?: Duplicates } = {},
+	): Option<
+		Usage,
+		PresetT,
+		DefaultT,
+		Duplicates extends "collect"
+			? Record<string, string[]>
+			: Record<string, string>,
+		Mandatory,
+		undefined
+	> {
+		const duplicates = options.duplicates ?? "last";
+		this.mapDuplicates = duplicates;
+		// Pairs are collected across repeated options rather than taking following arguments.
+		this.variadic = false;
+		return this.argParser<Record<string, string | string[]>>(
+			(arg, previous) => {
+				// No prototype, so keys like __proto__ are stored like any other key.
+				const result: Record<string, string | string[]> = Object.create(null);
+				if (
+					previous !== this.defaultValue &&
+					previous !== undefined &&
+					typeof previous === "object"
+				) {
+					Object.assign(result, previous);
+				}
+				// A config file may supply an object rather than key=value text.
+				const pairs =
+					typeof (arg as unknown) === "object"
+						? objectKeyValuePairs(arg as unknown as object)
+						: splitKeyValuePairs(arg);
+				for (const [key, value] of pairs) {
+					if (!Object.hasOwn(result, key)) {
+						result[key] = duplicates === "collect" ? [value] : value;
+					} else if (duplicates === "error") {
+						throw new InvalidArgumentError(`Duplicate key '${key}'.`);
+					} else if (duplicates === "collect") {
+						result[key] = (result[key] as string[]).concat(value);
+					} else {
+						result[key] = value;
+					}
+				}
+				return result;
+			},
+		) as Option<
+			Usage,
+			PresetT,
+			DefaultT,
+			Duplicates extends "collect"
+				? Record<string, string[]>
+				: Record<string, string>,
+			Mandatory,
+			undefined
+		>;
+	}
+
+	/**
+	 * Count the uses of a boolean option, like for verbosity levels with `-vvv`.
+	 * The value is a number, and a matching negated option like `--no-verbose` resets it to 0.
+	 *
+	 * @example
+	 * new Option('-v, --verbose', 'more output').count();
+	 */
+	count(): Option<Usage, number, DefaultT, number, Mandatory, undefined> {
+		this.counting = true;
+		return this.argParser<number>((value, previous) => {
+			// A value is only supplied from a config file, an environment variable, or a prompt, like `verbose: 2`.
+			if (value != null) {
+				return intParser({ min: 0 })(value);
+			}
+			return typeof previous === "number" ? previous + 1 : 1;
+		});
+	}
+
+	/**
+	 * Use the built-in parser for the value, collecting the values when variadic.
+	 */
+	#typedParser<T>(parse: (value: string) => T) {
+		return this.argParser<T | T[]>((arg, previous) => {
+			const value = parse(arg);
+			if (this.variadic) {
+				return this.#concatValue(value, previous);
+			}
+			return value;
+		});
+	}
+
+	/**
+	 * Validate the value using a Standard Schema validator, like those from Zod, Valibot, and ArkType.
+	 * The validator is called after any custom processing, and the issues are reported as an invalid value.
+	 *
+	 * @example
+	 * new Option('-p, --port <number>').schema(z.coerce.number().int().positive());
+	 */
+	schema<T>(
+		schema: StandardSchemaV1<unknown, T>,
+	): Option<Usage, PresetT, DefaultT, T, Mandatory, undefined> {
+		this.valueSchema = schema;
+		return this;
+	}
+
+	/**
+	 * Set the callback for computing candidate option values when completing a command line,
+	 * such as branch names or file paths. Used instead of the choices, if any.
+	 *
+	 * @example
+	 * new Option('--branch <name>').complete((partial) => listBranches(partial));
+	 */
+	complete(fn: CompletionFn): this {
+		this.completer = fn;
+		return this;
+	}
+
 	/**
 	 * Whether the option is mandatory and must have a value after parsing.
 	 */
@@ -162,7 +411,61 @@ class Option<
 		return this;
 	}
 
-	#concatValue(value: string, previous: string | string[]) {
+	/**
+	 * Set the heading for the group in which the option is listed in the help.
+	 * The default heading is `Options`.
+	 */
+	helpGroup(heading: string): this {
+		this.helpGroupHeading = heading;
+		return this;
+	}
+
+	/**
+	 * Mark the option value as sensitive, like a password or token. The value is not echoed when prompting for it,
+	 * and is masked in error messages, in the default shown in the help, and in `.describe()` and `.toJSON()`.
+	 */
+	sensitive(sensitive = true): this {
+		this.secret = !!sensitive;
+		return this;
+	}
+
+	/**
+	 * Add a companion option to read the value from a file, or from stdin when the path is `-`.
+	 * This keeps sensitive values out of the shell history. The default flags are like `--token-file <path>`.
+	 *
+	 * @example
+	 * new Option('--token <value>').sensitive().fromFile();
+	 */
+	fromFile(flags?: string): this {
+		this.fileFlags = flags ?? `--${this.name()}-file <path>`;
+		return this;
+	}
+
+	/**
+	 * Read the value from a file when the option-argument on the command line starts with the prefix,
+	 * like `--data @body.json`. A trailing newline is removed from the file contents.
+	 *
+	 * @example
+	 * new Option('-d, --data <text>').fileValue();
+	 *
+	 * @param prefix - the prefix for a file path, or `false` to turn off
+	 */
+	fileValue(prefix: string | boolean = "@"): this {
+		this.fileValuePrefix =
+			prefix === true ? "@" : prefix === false ? undefined : prefix;
+		return this;
+	}
+
+	/**
+	 * Return the value for display, or a mask if the option value is sensitive.
+	 *
+	 * @package
+	 */
+	maskValue<T>(value: T): T | string {
+		return this.secret ? "***" : value;
+	}
+
+	#concatValue<T>(value: T, previous: T | T[]): T[] {
 		if (previous === this.defaultValue || !Array.isArray(previous)) {
 			return [value];
 		}
@@ -229,6 +532,15 @@ class Option<
 	isBoolean(): boolean {
 		return !this.required && !this.optional && !this.negate;
 	}
+
+	/**
+	 * Return whether a map option, which collects key=value pairs into an object.
+	 *
+	 * @package
+	 */
+	isMap(): boolean {
+		return this.mapDuplicates !== undefined;
+	}
 }
 
 /**
@@ -289,6 +601,38 @@ function camelcase(str: string) {
 	});
 }
 
+/**
+ * Split something like 'a=1,b=2' into key-value pairs. The value is everything after the first '='.
+ */
+function splitKeyValuePairs(arg: string): Array<[string, string]> {
+	return arg.split(",").map((pair) => {
+		const index = pair.indexOf("=");
+		if (index < 1) {
+			throw new InvalidArgumentError(
+				"Not a key=value pair. Expected key=value, or k1=v1,k2=v2.",
+			);
+		}
+		return [pair.slice(0, index), pair.slice(index + 1)];
+	});
+}
+
+/**
+ * Get the key-value pairs from an object like `{ a: '1', b: ['2', '3'] }`, with a pair for each item of an array.
+ */
+function objectKeyValuePairs(obj: object): Array<[string, string]> {
+	return Object.entries(obj).flatMap(([key, value]) => {
+		const values: unknown[] = Array.isArray(value) ? value : [value];
+		return values.map((item): [string, string] => {
+			if (!["string", "number", "boolean"].includes(typeof item)) {
+				throw new InvalidArgumentError(
+					`Not a map value for key '${key}'. Expected a string.`,
+				);
+			}
+			return [key, String(item)];
+		});
+	});
+}
+
 /**
  * Split the short and long flag out of something like '-m,--mixed <value>'
  */
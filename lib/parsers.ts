@@ -0,0 +1,196 @@
+import type {
+	BooleanValues,
+	NumberParserOptions,
+	UrlParserOptions,
+} from "../typings";
+import { InvalidArgumentError } from "./error.js";
+
+/**
+ * Check the number is within the range, throwing an InvalidArgumentError if not.
+ */
+function checkRange(value: number, options: NumberParserOptions = {}) {
+	const { min, max } = options;
+	if (min !== undefined && max !== undefined) {
+		if (value < min || value > max) {
+			throw new InvalidArgumentError(`Must be between ${min} and ${max}.`);
+		}
+	} else if (min !== undefined && value < min) {
+		throw new InvalidArgumentError(`Must be at least ${min}.`);
+	} else if (max !== undefined && value > max) {
+		throw new InvalidArgumentError(`Must be at most ${max}.`);
+	}
+	return value;
+}
+
+/**
+ * Make a parser for an integer, optionally within a range.
+ *
+ * @example
+ * program.option('-p, --port <number>', 'port number', intParser({ min: 1, max: 65535 }));
+ */
+function intParser(options?: NumberParserOptions): (value: string) => number {
+	return (value) => {
+		if (!/^[+-]?\d+$/.test(value.trim())) {
+			throw new InvalidArgumentError("Not an integer.");
+		}
+		return checkRange(Number.parseInt(value, 10), options);
+	};
+}
+
+/**
+ * Make a parser for a number, optionally within a range.
+ */
+function floatParser(options?: NumberParserOptions): (value: string) => number {
+	return (value) => {
+		const number = Number(value);
+		if (value.trim() === "" || !Number.isFinite(number)) {
+			throw new InvalidArgumentError("Not a number.");
+		}
+		return checkRange(number, options);
+	};
+}
+
+const trueValues = ["true", "yes", "on", "1"];
+const falseValues = ["false", "no", "off", "0"];
+
+/**
+ * Make a parser for a boolean, which accepts true/false, yes/no, on/off, and 1/0 ignoring case.
+ * Supply the accepted true and false values to use other words.
+ */
+function booleanParser(values: BooleanValues = {}): (value: string) => boolean {
+	const truthy = (values.true ?? trueValues).map((v) => v.toLowerCase());
+	const falsy = (values.false ?? falseValues).map((v) => v.toLowerCase());
+	const expected =
+		values.true || values.false
+			? `Expected ${truthy.join(", ")} for true, or ${falsy.join(", ")} for false.`
+			: "Expected true or false, yes or no, on or off, or 1 or 0.";
+	return (value) => {
+		const normalized = value.trim().toLowerCase();
+		if (truthy.includes(normalized)) return true;
+		if (falsy.includes(normalized)) return false;
+		throw new InvalidArgumentError(`Not a boolean. ${expected}`);
+	};
+}
+
+const durationUnits: Record<string, number> = {
+	ms: 1,
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Make a parser for a duration like `500ms`, `30s`, or `1h30m`, returning milliseconds.
+ * A number without a unit is milliseconds.
+ */
+function durationParser(
+	options?: NumberParserOptions,
+): (value: string) => number {
+	return (value) => {
+		const trimmed = value.trim().toLowerCase();
+		const partPattern = /(\d+(?:\.\d+)?)(ms|s|m|h|d|w)/g;
+		let duration: number | undefined;
+		if (/^\d+(\.\d+)?$/.test(trimmed)) {
+			duration = Number(trimmed);
+		} else if (/^((\d+(\.\d+)?)(ms|s|m|h|d|w))+$/.test(trimmed)) {
+			duration = 0;
+			for (const [, amount, unit] of trimmed.matchAll(partPattern)) {
+				duration += Number(amount) * durationUnits[unit];
+			}
+		}
+		if (duration === undefined) {
+			throw new InvalidArgumentError(
+				"Not a duration. Expected a number with a unit like 500ms, 30s, 5m, 1h30m, 2d, or 1w.",
+			);
+		}
+		return checkRange(duration, options);
+	};
+}
+
+const byteUnits: Record<string, number> = {
+	"": 1,
+	b: 1,
+	kb: 1000,
+	mb: 1000 ** 2,
+	gb: 1000 ** 3,
+	tb: 1000 ** 4,
+	k: 1024,
+	m: 1024 ** 2,
+	g: 1024 ** 3,
+	t: 1024 ** 4,
+	kib: 1024,
+	mib: 1024 ** 2,
+	gib: 1024 ** 3,
+	tib: 1024 ** 4,
+};
+
+/**
+ * Make a parser for a size like `512`, `10KB`, or `1.5GiB`, returning bytes.
+ * KB/MB/GB/TB are powers of 1000, while K/M/G/T and KiB/MiB/GiB/TiB are powers of 1024.
+ */
+function bytesParser(options?: NumberParserOptions): (value: string) => number {
+	return (value) => {
+		const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/.exec(
+			value.trim().toLowerCase(),
+		);
+		// Own units only, so inherited names like `constructor` are not units.
+		const multiplier =
+			match && Object.hasOwn(byteUnits, match[2])
+				? byteUnits[match[2]]
+				: undefined;
+		if (!match || multiplier === undefined) {
+			throw new InvalidArgumentError(
+				"Not a size. Expected a number with an optional unit like 512, 10KB, 64M, or 1.5GiB.",
+			);
+		}
+		return checkRange(Math.round(Number(match[1]) * multiplier), options);
+	};
+}
+
+/**
+ * Make a parser for a URL, optionally restricting the protocols.
+ *
+ * @example
+ * program.option('--registry <url>', 'registry address', urlParser({ protocols: ['https:'] }));
+ */
+function urlParser(options: UrlParserOptions = {}): (value: string) => URL {
+	return (value) => {
+		let url: URL;
+		try {
+			url = new URL(value);
+		} catch {
+			throw new InvalidArgumentError("Not a valid URL.");
+		}
+		if (options.protocols && !options.protocols.includes(url.protocol)) {
+			throw new InvalidArgumentError(
+				`Protocol must be one of ${options.protocols.join(", ")}.`,
+			);
+		}
+		return url;
+	};
+}
+
+/**
+ * Make a parser for a date, like `2024-01-31` or `2024-01-31T12:00:00Z`.
+ */
+function dateParser(): (value: string) => Date {
+	return (value) => {
+		const date = new Date(value);
+		if (value.trim() === "" || Number.isNaN(date.getTime())) {
+			throw new InvalidArgumentError("Not a valid date.");
+		}
+		return date;
+	};
+}
+
+export {
+	intParser,
+	floatParser,
+	booleanParser,
+	durationParser,
+	bytesParser,
+	urlParser,
+	dateParser,
+};
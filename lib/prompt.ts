@@ -0,0 +1,36 @@
+import process from "node:process";
+import readline from "node:readline";
+import { Writable } from "node:stream";
+
+/**
+ * Read a line from stdin after writing the prompt to stdout.
+ * When sensitive, the typed characters are not echoed.
+ */
+function readInput(
+	prompt: string,
+	options: { sensitive: boolean },
+): Promise<string> {
+	let muted = false;
+	// Forward the output to stdout, except when muted to hide sensitive input.
+	const output = new Writable({
+		write(chunk, encoding, callback) {
+			if (!muted) process.stdout.write(chunk, encoding);
+			callback();
+		},
+	});
+	const rl = readline.createInterface({
+		input: process.stdin,
+		output,
+		terminal: !!process.stdin.isTTY,
+	});
+	return new Promise((resolve) => {
+		rl.question(prompt, (answer) => {
+			rl.close();
+			if (muted) process.stdout.write("\n");
+			resolve(answer);
+		});
+		muted = options.sensitive;
+	});
+}
+
+export { readInput };
@@ -0,0 +1,52 @@
+import type {
+	StandardSchemaIssue,
+	StandardSchemaResult,
+	StandardSchemaV1,
+} from "../typings";
+import { InvalidArgumentError } from "./error.js";
+
+/**
+ * Format the issue message, prefixed by the path to the invalid value, if any.
+ */
+function formatIssue(issue: StandardSchemaIssue): string {
+	const path = (issue.path ?? [])
+		.map((segment) =>
+			typeof segment === "object" ? String(segment.key) : String(segment),
+		)
+		.join(".");
+	return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Validate the value using a Standard Schema validator, like those from Zod, Valibot, and ArkType.
+ *
+ * The validation must be synchronous, as values are processed while parsing.
+ */
+function validateSchema<T>(
+	schema: StandardSchemaV1<unknown, T>,
+	value: unknown,
+): StandardSchemaResult<T> {
+	const result = schema["~standard"].validate(value);
+	if (result instanceof Promise) {
+		throw new TypeError(
+			"schema validation must be synchronous, but validate() returned a Promise",
+		);
+	}
+	return result;
+}
+
+/**
+ * Validate the value and return the output value, reporting the issues using an InvalidArgumentError.
+ */
+function validateSchemaValue<T>(
+	schema: StandardSchemaV1<unknown, T>,
+	value: unknown,
+): T {
+	const result = validateSchema(schema, value);
+	if (result.issues) {
+		throw new InvalidArgumentError(result.issues.map(formatIssue).join("; "));
+	}
+	return result.value;
+}
+
+export { formatIssue, validateSchema, validateSchemaValue };
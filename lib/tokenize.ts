@@ -0,0 +1,55 @@
+/**
+ * Split a command line into arguments using shell-like rules, without any expansions:
+ * - whitespace separates arguments
+ * - single quotes preserve the enclosed characters literally
+ * - double quotes preserve the enclosed characters, except backslash escapes `\"`, `\\`, `\$`, and `` \` ``
+ * - outside quotes, a backslash preserves the next character
+ *
+ * Throws an error if a quote is not closed.
+ *
+ * @example
+ * tokenizeArgs(`add "my file" --message='hello world'`); // ['add', 'my file', '--message=hello world']
+ */
+function tokenizeArgs(line: string): string[] {
+	const args: string[] = [];
+	let current = "";
+	let inArg = false; // so empty quotes make an empty argument
+	let quote: "'" | '"' | undefined;
+
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quote === "'") {
+			if (char === "'") quote = undefined;
+			else current += char;
+		} else if (quote === '"') {
+			if (char === '"') {
+				quote = undefined;
+			} else if (char === "\\" && '"\\$`'.includes(line[i + 1] ?? "")) {
+				current += line[++i];
+			} else {
+				current += char;
+			}
+		} else if (/\s/.test(char)) {
+			if (inArg) args.push(current);
+			current = "";
+			inArg = false;
+		} else {
+			inArg = true;
+			if (char === "'" || char === '"') {
+				quote = char;
+			} else if (char === "\\" && i + 1 < line.length) {
+				current += line[++i];
+			} else {
+				current += char;
+			}
+		}
+	}
+
+	if (quote) {
+		throw new Error(`unterminated ${quote} quote in '${line}'`);
+	}
+	if (inArg) args.push(current);
+	return args;
+}
+
+export { tokenizeArgs };
@@ -0,0 +1,139 @@
+const commander = require('../');
+
+afterEach(() => {
+  delete process.env.TEST_TARGET;
+  delete process.env.TEST_FILES;
+});
+
+function makeProgram() {
+  const actionMock = jest.fn();
+  const program = new commander.Command('app');
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .action(actionMock);
+  return { program, actionMock };
+}
+
+test('when argument missing and env var set then value from env', () => {
+  const { program, actionMock } = makeProgram();
+  program.addArgument(new commander.Argument('[target]').env('TEST_TARGET'));
+  process.env.TEST_TARGET = 'prod';
+  program.parse([], { from: 'user' });
+  expect(actionMock).toHaveBeenCalledWith('prod', {}, program);
+});
+
+test('when argument specified then env var ignored', () => {
+  const { program, actionMock } = makeProgram();
+  program.addArgument(new commander.Argument('[target]').env('TEST_TARGET'));
+  process.env.TEST_TARGET = 'prod';
+  program.parse(['dev'], { from: 'user' });
+  expect(actionMock).toHaveBeenCalledWith('dev', {}, program);
+});
+
+test('when env var set then used before default', () => {
+  const { program, actionMock } = makeProgram();
+  program.addArgument(
+    new commander.Argument('[target]').env('TEST_TARGET').default('staging'),
+  );
+  process.env.TEST_TARGET = 'prod';
+  program.parse([], { from: 'user' });
+  expect(actionMock).toHaveBeenCalledWith('prod', {}, program);
+});
+
+test('when env var not set then default used', () => {
+  const { program, actionMock } = makeProgram();
+  program.addArgument(
+    new commander.Argument('[target]').env('TEST_TARGET').default('staging'),
+  );
+  program.parse([], { from: 'user' });
+  expect(actionMock).toHaveBeenCalledWith('staging', {}, program);
+});
+
+test('when required argument missing and env var set then no error', () => {
+  const { program, actionMock } = makeProgram();
+  program.addArgument(new commander.Argument('<target>').env('TEST_TARGET'));
+  process.env.TEST_TARGET = 'prod';
+  program.parse([], { from: 'user' });
+  expect(actionMock).toHaveBeenCalledWith('prod', {}, program);
+});
+
+test('when required argument missing and env var not set then error', () => {
+  const { program } = makeProgram();
+  program.addArgument(new commander.Argument('<target>').env('TEST_TARGET'));
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(expect.objectContaining({ code: 'commander.missingArgument' }));
+});
+
+test('when earlier argument missing then later argument still from env', () => {
+  const { program, actionMock } = makeProgram();
+  program
+    .argument('[source]')
+    .addArgument(new commander.Argument('[target]').env('TEST_TARGET'));
+  process.env.TEST_TARGET = 'prod';
+  program.parse([], { from: 'user' });
+  expect(actionMock).toHaveBeenCalledWith(undefined, 'prod', {}, program);
+});
+
+test('when variadic argument from env then single value in array', () => {
+  const { program, actionMock } = makeProgram();
+  program.addArgument(new commander.Argument('[files...]').env('TEST_FILES'));
+  process.env.TEST_FILES = 'a.txt';
+  program.parse([], { from: 'user' });
+  expect(actionMock).toHaveBeenCalledWith(['a.txt'], {}, program);
+});
+
+test('when argument has custom processing then applied to env value', () => {
+  const { program, actionMock } = makeProgram();
+  program.addArgument(
+    new commander.Argument('[count]').int().env('TEST_TARGET'),
+  );
+  process.env.TEST_TARGET = '3';
+  program.parse([], { from: 'user' });
+  expect(actionMock).toHaveBeenCalledWith(3, {}, program);
+});
+
+test('when env value invalid then error mentions env', () => {
+  const { program } = makeProgram();
+  program.addArgument(
+    new commander.Argument('[count]').int().env('TEST_TARGET'),
+  );
+  process.env.TEST_TARGET = 'many';
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(
+    expect.objectContaining({
+      code: 'commander.invalidArgument',
+      message:
+        "error: command-argument value 'many' from env 'TEST_TARGET' is invalid for argument 'count'. Not an integer.",
+    }),
+  );
+});
+
+test('when env var set then args unchanged', () => {
+  const { program } = makeProgram();
+  program.addArgument(new commander.Argument('[target]').env('TEST_TARGET'));
+  process.env.TEST_TARGET = 'prod';
+  program.parse([], { from: 'user' });
+  expect(program.args).toEqual([]);
+  expect(program.processedArgs).toEqual(['prod']);
+});
+
+test('when help then shows env var', () => {
+  const program = new commander.Command('app');
+  program.addArgument(
+    new commander.Argument('[target]', 'deploy target')
+      .env('TEST_TARGET')
+      .default('staging'),
+  );
+  expect(program.helpInformation()).toMatch(
+    /target +deploy target \(default: "staging", env: TEST_TARGET\)/,
+  );
+});
+
+test('when describe then includes env var', () => {
+  const program = new commander.Command('app');
+  program.addArgument(new commander.Argument('[target]').env('TEST_TARGET'));
+  expect(program.describe().arguments[0].envVar).toBe('TEST_TARGET');
+});
@@ -0,0 +1,192 @@
+const commander = require('../');
+
+function makeProgram() {
+  const program = new commander.Command();
+  program
+    .exitOverride()
+    .aggregateErrors()
+    .configureOutput({ writeErr: () => {} });
+  return program;
+}
+
+function parseError(program, args) {
+  try {
+    program.parse(args, { from: 'user' });
+  } catch (err) {
+    return err;
+  }
+  throw new Error('expected parse to throw');
+}
+
+test('when not aggregating then stops at first error', () => {
+  const program = new commander.Command();
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .requiredOption('--name <value>')
+    .requiredOption('--age <value>');
+  const err = parseError(program, []);
+  expect(err.code).toBe('commander.missingMandatoryOptionValue');
+  expect(err.errors).toBeUndefined();
+});
+
+test('when multiple mandatory options missing then all reported', () => {
+  const program = makeProgram();
+  program.requiredOption('--name <value>').requiredOption('--age <value>');
+  const err = parseError(program, []);
+  expect(err.code).toBe('commander.multipleErrors');
+  expect(err.errors.map((e) => e.code)).toEqual([
+    'commander.missingMandatoryOptionValue',
+    'commander.missingMandatoryOptionValue',
+  ]);
+  expect(err.message).toBe(
+    "error: required option '--name <value>' not specified\nerror: required option '--age <value>' not specified",
+  );
+});
+
+test('when different problems then all reported in order checked', () => {
+  const program = makeProgram();
+  program
+    .requiredOption('--name <value>')
+    .addOption(new commander.Option('--json').conflicts('csv'))
+    .option('--csv')
+    .argument('<file>');
+  const err = parseError(program, ['--json', '--csv']);
+  expect(err.errors.map((e) => e.code)).toEqual([
+    'commander.missingMandatoryOptionValue',
+    'commander.conflictingOption',
+    'commander.missingArgument',
+  ]);
+});
+
+test('when invalid option value and missing mandatory option then both reported', () => {
+  const program = makeProgram();
+  program
+    .addOption(new commander.Option('--n <number>').int())
+    .requiredOption('--name <value>');
+  const err = parseError(program, ['--n', 'q']);
+  expect(err.errors.map((e) => e.code)).toEqual([
+    'commander.invalidArgument',
+    'commander.missingMandatoryOptionValue',
+  ]);
+});
+
+test('when invalid option value from env and invalid choice then both reported', () => {
+  const program = makeProgram();
+  program
+    .addOption(new commander.Option('--n <number>').int().env('TEST_N'))
+    .addOption(new commander.Option('--size <size>').choices(['S', 'L']));
+  process.env.TEST_N = 'q';
+  const err = parseError(program, ['--size', 'M']);
+  delete process.env.TEST_N;
+  expect(err.errors.map((e) => e.code)).toEqual([
+    'commander.invalidArgument',
+    'commander.invalidArgument',
+  ]);
+});
+
+test('when invalid global option value and subcommand problem then both reported', () => {
+  const program = makeProgram();
+  program.addOption(new commander.Option('--n <number>').int());
+  program.command('sub').requiredOption('--local <value>');
+  const err = parseError(program, ['--n', 'q', 'sub']);
+  expect(err.errors.map((e) => e.code)).toEqual([
+    'commander.invalidArgument',
+    'commander.missingMandatoryOptionValue',
+  ]);
+});
+
+test('when subcommand not aggregating then global option error reported', () => {
+  const program = makeProgram();
+  program.addOption(new commander.Option('--n <number>').int());
+  program
+    .command('sub')
+    .aggregateErrors(false)
+    .requiredOption('--local <value>');
+  const err = parseError(program, ['--n', 'q', 'sub']);
+  expect(err.code).toBe('commander.invalidArgument');
+});
+
+test('when multiple unknown options then all reported', () => {
+  const program = makeProgram();
+  const err = parseError(program, ['--foo', 'value', '--bar', '--', '--baz']);
+  expect(err.errors.map((e) => e.message)).toEqual([
+    "error: unknown option '--foo'",
+    "error: unknown option '--bar'",
+  ]);
+});
+
+test('when single problem then error has usual code and errors', () => {
+  const program = makeProgram();
+  program.argument('<file>');
+  const err = parseError(program, []);
+  expect(err.code).toBe('commander.missingArgument');
+  expect(err.message).toBe("error: missing required argument 'file'");
+  expect(err.errors).toHaveLength(1);
+});
+
+test('when invalid argument and excess arguments then both reported', () => {
+  const program = makeProgram();
+  program.allowExcessArguments(false).argument('<count>', 'count', (value) => {
+    throw new commander.InvalidArgumentError('Not a number.');
+  });
+  const err = parseError(program, ['x', 'y']);
+  expect(err.errors.map((e) => e.code)).toEqual([
+    'commander.excessArguments',
+    'commander.invalidArgument',
+  ]);
+});
+
+test('when aggregating then messages written together', () => {
+  const writeErr = jest.fn();
+  const program = makeProgram();
+  program
+    .configureOutput({ writeErr })
+    .requiredOption('--name <value>')
+    .requiredOption('--age <value>');
+  parseError(program, []);
+  expect(writeErr).toHaveBeenCalledTimes(1);
+  expect(writeErr).toHaveBeenCalledWith(
+    "error: required option '--name <value>' not specified\nerror: required option '--age <value>' not specified\n",
+  );
+});
+
+test('when aggregating then action not called', () => {
+  const action = jest.fn();
+  const program = makeProgram();
+  program.requiredOption('--name <value>').action(action);
+  parseError(program, []);
+  expect(action).not.toHaveBeenCalled();
+});
+
+test('when subcommand then aggregating inherited and includes global options', () => {
+  const program = makeProgram();
+  program.requiredOption('--global <value>');
+  program.command('sub').requiredOption('--local <value>');
+  const err = parseError(program, ['sub']);
+  expect(err.errors.map((e) => e.message)).toEqual([
+    "error: required option '--local <value>' not specified",
+    "error: required option '--global <value>' not specified",
+  ]);
+});
+
+test('when parseResult then errors contains each problem', () => {
+  const program = new commander.Command();
+  program
+    .aggregateErrors()
+    .requiredOption('--name <value>')
+    .requiredOption('--age <value>');
+  const result = program.parseResult([], { from: 'user' });
+  expect(result.errors.map((e) => e.code)).toEqual([
+    'commander.missingMandatoryOptionValue',
+    'commander.missingMandatoryOptionValue',
+  ]);
+});
+
+test('when no problems then action called', () => {
+  const action = jest.fn();
+  const program = makeProgram();
+  program.requiredOption('--name <value>').action(action);
+  program.parse(['--name', 'x'], { from: 'user' });
+  expect(action).toHaveBeenCalled();
+});
@@ -0,0 +1,114 @@
+const commander = require('../');
+
+function makeProgram() {
+  const program = new commander.Command('pm');
+  program
+    .option('-d, --debug', 'output debugging')
+    .addOption(
+      new commander.Option('-c, --color <name>', 'colour').choices([
+        'red',
+        'green',
+      ]),
+    )
+    .addOption(new commander.Option('--secret', 'hidden option').hideHelp());
+  program
+    .command('install [package]')
+    .alias('i')
+    .description('install a package')
+    .option('--save', 'save to dependencies');
+  program
+    .command('serve')
+    .addArgument(new commander.Argument('<mode>').choices(['dev', 'prod']));
+  program.command('internal', { hidden: true });
+  return program;
+}
+
+describe.each(['bash', 'zsh', 'fish'])('completionScript(%s)', (shell) => {
+  test('when generate then includes visible subcommands and aliases', () => {
+    const script = makeProgram().completionScript(shell);
+    expect(script).toMatch('install');
+    expect(script).toMatch("pm i'");
+    expect(script).toMatch('serve');
+  });
+
+  test('when generate then excludes hidden subcommand and option', () => {
+    const script = makeProgram().completionScript(shell);
+    expect(script).not.toMatch('internal');
+    expect(script).not.toMatch('secret');
+  });
+
+  test('when generate then includes option choices', () => {
+    const script = makeProgram().completionScript(shell);
+    expect(script).toMatch(/red.*green/);
+  });
+
+  test('when generate then includes argument choices', () => {
+    const script = makeProgram().completionScript(shell);
+    expect(script).toMatch(/dev.*prod/);
+  });
+
+  test('when generate then includes subcommand option', () => {
+    const script = makeProgram().completionScript(shell);
+    expect(script).toMatch('save');
+  });
+});
+
+test('when completionScript for bash then registers completion function for program', () => {
+  const script = makeProgram().completionScript('bash');
+  expect(script).toMatch('complete -o default -F _pm_completion pm');
+  expect(script).toMatch("'pm install'|'pm i') cmdpath='pm install' ;;");
+});
+
+test('when completionScript for zsh then registers completion function for program', () => {
+  const script = makeProgram().completionScript('zsh');
+  expect(script).toMatch(/^#compdef pm\n/);
+  expect(script).toMatch('compdef _pm_completion pm');
+});
+
+test('when completionScript for fish then adds completions for subcommand', () => {
+  const script = makeProgram().completionScript('fish');
+  expect(script).toMatch(
+    "complete -c pm -n 'test (__pm_completion_path) = \\'pm\\'' -a 'install' -d 'install a package'",
+  );
+});
+
+test('when completionScript for unknown shell then throws', () => {
+  expect(() => {
+    makeProgram().completionScript('powershell');
+  }).toThrow('Unexpected value for shell passed to completionScript');
+});
+
+describe('completionCommand', () => {
+  test('when completionCommand then completion subcommand added', () => {
+    const program = new commander.Command();
+    program.completionCommand();
+    expect(program.commands.map((cmd) => cmd.name())).toEqual(['completion']);
+  });
+
+  test('when completion subcommand called then script written to stdout', () => {
+    const writeOut = jest.fn();
+    const program = makeProgram();
+    program.completionCommand().configureOutput({ writeOut });
+    program.parse(['completion', 'bash'], { from: 'user' });
+    expect(writeOut).toHaveBeenCalledWith(program.completionScript('bash'));
+  });
+
+  test('when completion subcommand called with unknown shell then error', () => {
+    const program = makeProgram();
+    program
+      .exitOverride()
+      .completionCommand()
+      .configureOutput({ writeErr: () => {} });
+    expect(() => {
+      program.parse(['completion', 'tcsh'], { from: 'user' });
+    }).toThrow('Allowed choices are bash, zsh, fish.');
+  });
+
+  test('when completionCommand with custom name then subcommand uses name', () => {
+    const program = new commander.Command();
+    program.completionCommand('completions', 'custom description');
+    const cmd = program.commands[0];
+    expect(cmd.name()).toEqual('completions');
+    expect(cmd.description()).toEqual('custom description');
+  });
+});
@@ -0,0 +1,179 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const commander = require('../');
+
+let tempDir;
+let projectDir;
+let nestedDir;
+let userDir;
+let systemDir;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'commander-discovery-'));
+  projectDir = path.join(tempDir, 'project');
+  nestedDir = path.join(projectDir, 'packages', 'app');
+  userDir = path.join(tempDir, 'user');
+  systemDir = path.join(tempDir, 'system');
+  [nestedDir, userDir, systemDir].forEach((dir) =>
+    fs.mkdirSync(dir, { recursive: true }),
+  );
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function writeConfig(dir, name, values) {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, JSON.stringify(values));
+  return file;
+}
+
+function makeProgram() {
+  const program = new commander.Command();
+  program
+    .option('--foo <value>')
+    .option('--bar <value>')
+    .configDiscovery('cmdrtest', { cwd: nestedDir, userDir, systemDir });
+  return program;
+}
+
+test('when system config then option from system config', () => {
+  const file = writeConfig(systemDir, 'config.json', { foo: 'system' });
+  const program = makeProgram();
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBe('system');
+  expect(program.getOptionValueConfigFile('foo')).toBe(file);
+});
+
+test('when user and system config then option from user config', () => {
+  writeConfig(systemDir, 'config.json', { foo: 'system', bar: 'system' });
+  const file = writeConfig(userDir, 'config.json', { foo: 'user' });
+  const program = makeProgram();
+  program.parse([], { from: 'user' });
+  expect(program.opts()).toEqual({ foo: 'user', bar: 'system' });
+  expect(program.getOptionValueConfigFile('foo')).toBe(file);
+});
+
+test('when project and user config then option from project config', () => {
+  writeConfig(userDir, 'config.json', { foo: 'user' });
+  const file = writeConfig(projectDir, '.cmdrtestrc.json', { foo: 'project' });
+  const program = makeProgram();
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBe('project');
+  expect(program.getOptionValueConfigFile('foo')).toBe(file);
+});
+
+test('when project config in cwd and ancestor then nearer config takes precedence', () => {
+  writeConfig(projectDir, '.cmdrtestrc.json', { foo: 'outer', bar: 'outer' });
+  const file = writeConfig(nestedDir, '.cmdrtestrc.json', { foo: 'inner' });
+  const program = makeProgram();
+  program.parse([], { from: 'user' });
+  expect(program.opts()).toEqual({ foo: 'inner', bar: 'outer' });
+  expect(program.getOptionValueConfigFile('foo')).toBe(file);
+});
+
+test('when configFile and discovered config then configFile takes precedence', () => {
+  writeConfig(projectDir, '.cmdrtestrc.json', { foo: 'project' });
+  const file = writeConfig(tempDir, 'explicit.json', { foo: 'explicit' });
+  const program = makeProgram();
+  program.configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBe('explicit');
+  expect(program.getOptionValueConfigFile('foo')).toBe(file);
+});
+
+test('when variadic option in multiple configs then values not combined', () => {
+  writeConfig(userDir, 'config.json', { tags: ['a', 'b'] });
+  writeConfig(projectDir, '.cmdrtestrc.json', { tags: ['c'] });
+  const program = makeProgram();
+  program.option('--tags <tag...>');
+  program.parse([], { from: 'user' });
+  expect(program.opts().tags).toEqual(['c']);
+});
+
+test('when layer disabled then config not read', () => {
+  writeConfig(userDir, 'config.json', { foo: 'user' });
+  const program = new commander.Command();
+  program
+    .option('--foo <value>')
+    .configDiscovery('cmdrtest', { cwd: nestedDir, userDir: false, systemDir });
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBeUndefined();
+});
+
+test('when custom format then discovered with extension', () => {
+  fs.writeFileSync(path.join(projectDir, '.cmdrtestrc.ini'), 'foo=ini');
+  const program = new commander.Command();
+  program.option('--foo <value>').configDiscovery('cmdrtest', {
+    cwd: nestedDir,
+    userDir,
+    systemDir,
+    formats: { '.ini': (content) => Object.fromEntries([content.split('=')]) },
+  });
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBe('ini');
+});
+
+test('when value from cli then getOptionValueConfigFile is undefined', () => {
+  writeConfig(projectDir, '.cmdrtestrc.json', { foo: 'project' });
+  const program = makeProgram();
+  program.parse(['--foo', 'cli'], { from: 'user' });
+  expect(program.getOptionValueConfigFile('foo')).toBeUndefined();
+});
+
+test('when subcommand section in config then getOptionValueSourceWithGlobals includes file', () => {
+  const file = writeConfig(projectDir, '.cmdrtestrc.json', {
+    foo: 'project',
+    sub: { baz: 'sub' },
+  });
+  const program = makeProgram();
+  let sourceInfo;
+  let globalSourceInfo;
+  program
+    .command('sub')
+    .option('--baz <value>')
+    .action((options, cmd) => {
+      sourceInfo = cmd.getOptionValueSourceWithGlobals('baz', {
+        includeFile: true,
+      });
+      globalSourceInfo = cmd.getOptionValueSourceWithGlobals('foo', {
+        includeFile: true,
+      });
+    });
+  program.parse(['sub'], { from: 'user' });
+  expect(sourceInfo).toEqual({ source: 'config', file });
+  expect(globalSourceInfo).toEqual({ source: 'config', file });
+});
+
+test('when getOptionValueSourceWithGlobals includeFile for cli value then file undefined', () => {
+  const program = makeProgram();
+  program.parse(['--foo', 'cli'], { from: 'user' });
+  expect(
+    program.getOptionValueSourceWithGlobals('foo', { includeFile: true }),
+  ).toEqual({ source: 'cli', file: undefined });
+});
+
+test('when getOptionValueSourceWithGlobals without options then returns source', () => {
+  writeConfig(projectDir, '.cmdrtestrc.json', { foo: 'project' });
+  const program = makeProgram();
+  program.parse([], { from: 'user' });
+  expect(program.getOptionValueSourceWithGlobals('foo')).toBe('config');
+});
+
+test('when XDG_CONFIG_HOME set then user config read from there', () => {
+  const xdgDir = path.join(tempDir, 'xdg');
+  fs.mkdirSync(path.join(xdgDir, 'cmdrtest'), { recursive: true });
+  writeConfig(path.join(xdgDir, 'cmdrtest'), 'config.json', { foo: 'xdg' });
+  const saved = process.env.XDG_CONFIG_HOME;
+  process.env.XDG_CONFIG_HOME = xdgDir;
+  const program = new commander.Command();
+  program
+    .option('--foo <value>')
+    .configDiscovery('cmdrtest', { cwd: nestedDir, systemDir: false });
+  program.parse([], { from: 'user' });
+  if (saved === undefined) delete process.env.XDG_CONFIG_HOME;
+  else process.env.XDG_CONFIG_HOME = saved;
+  expect(program.opts().foo).toBe('xdg');
+});
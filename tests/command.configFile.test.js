@@ -0,0 +1,264 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const commander = require('../');
+
+let tempDir;
+
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'commander-config-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function writeConfig(name, content) {
+  const file = path.join(tempDir, name);
+  fs.writeFileSync(
+    file,
+    typeof content === 'string' ? content : JSON.stringify(content),
+  );
+  return file;
+}
+
+test('when config file has option value then option from config', () => {
+  const file = writeConfig('value.json', { foo: 'config' });
+  const program = new commander.Command();
+  program.option('--foo <value>').configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBe('config');
+  expect(program.getOptionValueSource('foo')).toBe('config');
+});
+
+test('when config file has camelcase key then option from config', () => {
+  const file = writeConfig('camel.json', { dryRun: true });
+  const program = new commander.Command();
+  program.option('--dry-run').configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().dryRun).toBe(true);
+});
+
+test('when config file has long option name key then option from config', () => {
+  const file = writeConfig('long.json', { 'dry-run': true });
+  const program = new commander.Command();
+  program.option('--dry-run').configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().dryRun).toBe(true);
+});
+
+test('when config file and cli then option from cli', () => {
+  const file = writeConfig('cli.json', { foo: 'config' });
+  const program = new commander.Command();
+  program.option('--foo <value>').configFile(file);
+  program.parse(['--foo', 'cli'], { from: 'user' });
+  expect(program.opts().foo).toBe('cli');
+  expect(program.getOptionValueSource('foo')).toBe('cli');
+});
+
+test('when config file and env then option from env', () => {
+  const file = writeConfig('env.json', { foo: 'config' });
+  const program = new commander.Command();
+  process.env.BAR = 'env';
+  program
+    .addOption(new commander.Option('--foo <value>').env('BAR'))
+    .configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBe('env');
+  delete process.env.BAR;
+});
+
+test('when config array and env for variadic option then env replaces config', () => {
+  const file = writeConfig('env-variadic.json', { tags: ['a', 'b'] });
+  const program = new commander.Command();
+  process.env.TAGS = 'c';
+  program
+    .addOption(new commander.Option('--tags <tag...>').env('TAGS'))
+    .configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().tags).toEqual(['c']);
+  expect(program.getOptionValueSource('tags')).toBe('env');
+  delete process.env.TAGS;
+});
+
+test('when config and env for map option then env replaces config', () => {
+  const file = writeConfig('env-map.json', { label: 'a=1' });
+  const program = new commander.Command();
+  process.env.LABEL = 'b=2';
+  program
+    .addOption(new commander.Option('--label <pair>').map().env('LABEL'))
+    .configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().label).toEqual({ b: '2' });
+  delete process.env.LABEL;
+});
+
+test('when config file and default then option from config', () => {
+  const file = writeConfig('default.json', { foo: 'config' });
+  const program = new commander.Command();
+  program.option('--foo <value>', 'description', 'default').configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBe('config');
+});
+
+test('when config file and value set by client then option unchanged', () => {
+  const file = writeConfig('client.json', { foo: 'config' });
+  const program = new commander.Command();
+  program.option('--foo <value>').configFile(file);
+  program.setOptionValue('foo', 'client');
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBe('client');
+});
+
+test('when config value and custom processing then value processed', () => {
+  const file = writeConfig('parse.json', { port: 80 });
+  const program = new commander.Command();
+  program
+    .option('--port <number>', 'port', (value) => parseInt(value, 10) + 1)
+    .configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().port).toBe(81);
+});
+
+test('when config value not in choices then error mentions config file', () => {
+  const file = writeConfig('choices.json', { color: 'blue' });
+  const program = new commander.Command();
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .addOption(new commander.Option('--color <name>').choices(['red']))
+    .configFile(file);
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(
+    `error: option '--color <name>' value 'blue' from config '${file}' is invalid.`,
+  );
+});
+
+test('when config array for variadic option then values collected', () => {
+  const file = writeConfig('variadic.json', { tags: ['a', 'b'] });
+  const program = new commander.Command();
+  program.option('--tags <tag...>').configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().tags).toEqual(['a', 'b']);
+});
+
+test('when config false for negatable option then option false', () => {
+  const file = writeConfig('negate.json', { color: false });
+  const program = new commander.Command();
+  program.option('--no-color').configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts().color).toBe(false);
+});
+
+test('when config has subcommand section then subcommand option from config', () => {
+  const file = writeConfig('sub.json', { foo: 'root', sub: { bar: 'sub' } });
+  const program = new commander.Command();
+  program.option('--foo <value>').configFile(file);
+  const sub = program
+    .command('sub')
+    .option('--bar <value>')
+    .action(() => {});
+  program.parse(['sub'], { from: 'user' });
+  expect(program.opts().foo).toBe('root');
+  expect(sub.opts().bar).toBe('sub');
+  expect(sub.getOptionValueSource('bar')).toBe('config');
+});
+
+test('when config has unknown keys then ignored', () => {
+  const file = writeConfig('unknown.json', { other: 1 });
+  const program = new commander.Command();
+  program.option('--foo <value>').configFile(file);
+  program.parse([], { from: 'user' });
+  expect(program.opts()).toEqual({});
+});
+
+test('when config file path does not exist then ignored', () => {
+  const program = new commander.Command();
+  program
+    .option('--foo <value>')
+    .configFile(path.join(tempDir, 'missing.json'));
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBeUndefined();
+});
+
+test('when config resolver then called with command after cli options parsed', () => {
+  const file = writeConfig('resolver.json', { foo: 'config' });
+  const program = new commander.Command();
+  program
+    .option('--config <file>')
+    .option('--foo <value>')
+    .configFile((cmd) => cmd.opts().config);
+  program.parse(['--config', file], { from: 'user' });
+  expect(program.opts().foo).toBe('config');
+});
+
+test('when config resolver returns undefined then no config', () => {
+  const program = new commander.Command();
+  program.option('--foo <value>').configFile(() => undefined);
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBeUndefined();
+});
+
+test('when config resolver returns missing file then error', () => {
+  const file = path.join(tempDir, 'missing.json');
+  const program = new commander.Command();
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .configFile(() => file);
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(
+    expect.objectContaining({
+      code: 'commander.missingConfig',
+      message: `error: config file '${file}' not found`,
+    }),
+  );
+});
+
+test('when config file is invalid JSON then error', () => {
+  const file = writeConfig('invalid.json', '{ foo');
+  const program = new commander.Command();
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .configFile(file);
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(expect.objectContaining({ code: 'commander.invalidConfig' }));
+});
+
+test('when config file is not an object then error', () => {
+  const file = writeConfig('array.json', []);
+  const program = new commander.Command();
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .configFile(file);
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(`error: config file '${file}' is invalid. Expecting an object.`);
+});
+
+test('when custom format then parser used for extension', () => {
+  const file = writeConfig('custom.ini', 'foo=custom');
+  const parser = jest.fn((content) => Object.fromEntries([content.split('=')]));
+  const program = new commander.Command();
+  program
+    .option('--foo <value>')
+    .configFile(file, { formats: { '.ini': parser } });
+  program.parse([], { from: 'user' });
+  expect(parser).toHaveBeenCalledWith('foo=custom', file);
+  expect(program.opts().foo).toBe('custom');
+});
+
+test('when custom format without leading dot then parser used for extension', () => {
+  const file = writeConfig('nodot.ini', 'foo=custom');
+  const program = new commander.Command();
+  program.option('--foo <value>').configFile(file, {
+    formats: { ini: (content) => Object.fromEntries([content.split('=')]) },
+  });
+  program.parse([], { from: 'user' });
+  expect(program.opts().foo).toBe('custom');
+});
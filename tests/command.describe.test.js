@@ -0,0 +1,152 @@
+const commander = require('../');
+
+function makeProgram() {
+  const program = new commander.Command('pm');
+  program
+    .summary('package manager')
+    .description('manage packages')
+    .option('-d, --debug', 'output debugging')
+    .addOption(
+      new commander.Option('-c, --color <name>', 'colour')
+        .choices(['red', 'green'])
+        .default('red', 'red colour')
+        .env('PM_COLOR')
+        .conflicts('mono'),
+    )
+    .addOption(new commander.Option('--mono').implies({ color: 'grey' }))
+    .addOption(new commander.Option('--secret', 'hidden option').hideHelp());
+  program
+    .command('install')
+    .alias('i')
+    .summary('install a package')
+    .argument('<package...>', 'packages to install')
+    .option('--save', 'save to dependencies');
+  program.command('internal', { hidden: true });
+  return program;
+}
+
+test('when describe then includes command properties', () => {
+  const description = makeProgram().describe();
+  expect(description).toEqual(
+    expect.objectContaining({
+      name: 'pm',
+      aliases: [],
+      summary: 'package manager',
+      description: 'manage packages',
+      usage: 'pm [options] [command]',
+      hidden: false,
+    }),
+  );
+});
+
+test('when describe then includes option properties', () => {
+  const description = makeProgram().describe();
+  const color = description.options.find((option) => option.name === 'color');
+  expect(color).toEqual({
+    flags: '-c, --color <name>',
+    name: 'color',
+    attributeName: 'color',
+    short: '-c',
+    long: '--color',
+    description: 'colour',
+    required: true,
+    optional: false,
+    variadic: false,
+    negate: false,
+    mandatory: false,
+    hidden: false,
+    defaultValue: 'red',
+    defaultValueDescription: 'red colour',
+    choices: ['red', 'green'],
+    envVar: 'PM_COLOR',
+    conflictsWith: ['mono'],
+  });
+});
+
+test('when option implies then includes implies', () => {
+  const description = makeProgram().describe();
+  const mono = description.options.find((option) => option.name === 'mono');
+  expect(mono.implies).toEqual({ color: 'grey' });
+});
+
+test('when describe then includes help option', () => {
+  const description = makeProgram().describe();
+  expect(description.options.map((option) => option.long)).toContain('--help');
+});
+
+test('when describe then excludes hidden option and command', () => {
+  const description = makeProgram().describe();
+  expect(description.options.map((option) => option.name)).not.toContain(
+    'secret',
+  );
+  expect(description.commands.map((cmd) => cmd.name)).toEqual([
+    'install',
+    'help',
+  ]);
+});
+
+test('when describe with includeHidden then includes hidden option and command', () => {
+  const description = makeProgram().describe({ includeHidden: true });
+  const secret = description.options.find((option) => option.name === 'secret');
+  expect(secret.hidden).toBe(true);
+  const internal = description.commands.find((cmd) => cmd.name === 'internal');
+  expect(internal.hidden).toBe(true);
+});
+
+test('when describe then includes subcommand with aliases, arguments, and options', () => {
+  const description = makeProgram().describe();
+  const install = description.commands[0];
+  expect(install.name).toBe('install');
+  expect(install.aliases).toEqual(['i']);
+  expect(install.summary).toBe('install a package');
+  expect(install.usage).toBe('pm install|i [options] <package...>');
+  expect(install.arguments).toEqual([
+    {
+      name: 'package',
+      description: 'packages to install',
+      required: true,
+      variadic: true,
+    },
+  ]);
+  expect(install.options.map((option) => option.long)).toEqual([
+    '--save',
+    '--help',
+  ]);
+});
+
+test('when argument without description then still included', () => {
+  const program = new commander.Command();
+  program.argument('[file]', undefined, 'index.js');
+  expect(program.describe().arguments).toEqual([
+    {
+      name: 'file',
+      description: '',
+      required: false,
+      variadic: false,
+      defaultValue: 'index.js',
+    },
+  ]);
+});
+
+test('when sortOptions then options sorted like help', () => {
+  const program = new commander.Command();
+  program.configureHelp({ sortOptions: true });
+  program.option('--zeta').option('--alpha');
+  expect(program.describe().options.map((option) => option.long)).toEqual([
+    '--alpha',
+    '--help',
+    '--zeta',
+  ]);
+});
+
+test('when JSON.stringify then uses describe', () => {
+  const program = makeProgram();
+  expect(JSON.parse(JSON.stringify(program))).toEqual(
+    JSON.parse(JSON.stringify(program.describe())),
+  );
+});
+
+test('when toJSON then same as describe', () => {
+  const program = makeProgram();
+  expect(program.toJSON()).toEqual(program.describe());
+});
@@ -0,0 +1,235 @@
+const commander = require('../');
+
+function makeProgram() {
+  const program = new commander.Command('pm');
+  program
+    .enableDynamicCompletion()
+    .option('-d, --debug', 'output debugging')
+    .addOption(
+      new commander.Option('-c, --color <name>', 'colour').choices([
+        'red',
+        'green',
+      ]),
+    )
+    .addOption(
+      new commander.Option('--branch <name>').complete((partial) =>
+        ['main', 'develop'].filter((branch) => branch.startsWith(partial)),
+      ),
+    )
+    .addOption(new commander.Option('--secret', 'hidden option').hideHelp());
+  program
+    .command('install [package]')
+    .alias('i')
+    .option('--save', 'save to dependencies')
+    .addArgument(
+      new commander.Argument('[extra...]').complete(() => ['one', 'two']),
+    );
+  program
+    .command('serve')
+    .addArgument(new commander.Argument('<mode>').choices(['dev', 'prod']));
+  program.command('internal', { hidden: true });
+  return program;
+}
+
+describe('getCompletions', () => {
+  test('when empty partial then returns visible subcommands and aliases', () => {
+    const program = makeProgram();
+    expect(program.getCompletions([''])).toEqual([
+      'install',
+      'i',
+      'serve',
+      'help',
+    ]);
+  });
+
+  test('when partial subcommand then returns matching subcommands', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['se'])).toEqual(['serve']);
+  });
+
+  test('when partial option then returns matching visible flags', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['--'])).toEqual([
+      '--debug',
+      '--color',
+      '--branch',
+      '--help',
+    ]);
+  });
+
+  test('when after option with choices then returns choices', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['--color', ''])).toEqual(['red', 'green']);
+  });
+
+  test('when after option with completer then returns completer values', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['--branch', 'd'])).toEqual(['develop']);
+  });
+
+  test('when option with equals then returns values with flag prefix', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['--color=g'])).toEqual(['--color=green']);
+  });
+
+  test('when after option value then returns subcommands', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['--color', 'red', 'i'])).toEqual([
+      'install',
+      'i',
+    ]);
+  });
+
+  test('when in subcommand then returns subcommand options including global', () => {
+    const program = makeProgram();
+    program.commands[0].configureHelp({ showGlobalOptions: true });
+    expect(program.getCompletions(['i', '--'])).toEqual([
+      '--save',
+      '--help',
+      '--debug',
+      '--color',
+      '--branch',
+    ]);
+  });
+
+  test('when in subcommand then returns argument choices', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['serve', ''])).toEqual(['dev', 'prod']);
+  });
+
+  test('when after global option in subcommand then returns option values', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['serve', '-c', ''])).toEqual([
+      'red',
+      'green',
+    ]);
+  });
+
+  test('when variadic argument then completes each value', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['install', 'a', 'b', ''])).toEqual([
+      'one',
+      'two',
+    ]);
+  });
+
+  test('when after literal -- then does not return options', () => {
+    const program = makeProgram();
+    expect(program.getCompletions(['serve', '--', '-'])).toEqual([]);
+  });
+
+  test('when completer returns promise then returns promise', async () => {
+    const program = new commander.Command();
+    program.addOption(
+      new commander.Option('--name <value>').complete(async () => [
+        'alpha',
+        'beta',
+      ]),
+    );
+    const candidates = program.getCompletions(['--name', 'b']);
+    expect(candidates).toBeInstanceOf(Promise);
+    await expect(candidates).resolves.toEqual(['beta']);
+  });
+
+  test('when completer called then passed partial and command', () => {
+    const complete = jest.fn(() => []);
+    const program = new commander.Command();
+    const sub = program.command('sub');
+    sub.argument('<file>').registeredArguments[0].complete(complete);
+    program.getCompletions(['sub', 'fi']);
+    expect(complete).toHaveBeenCalledWith('fi', sub);
+  });
+
+  test('when getCompletions then does not set option values', () => {
+    const program = makeProgram();
+    program.getCompletions(['--color', 'red', '--debug', '']);
+    expect(program.opts()).toEqual({});
+  });
+});
+
+describe('--get-completions', () => {
+  test('when parse with flag then candidates written one per line and exit', () => {
+    const writeOut = jest.fn();
+    const program = makeProgram();
+    program.exitOverride().configureOutput({ writeOut });
+    expect(() => {
+      program.parse(['--get-completions', 'serve', ''], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({ code: 'commander.completion', exitCode: 0 }),
+    );
+    expect(writeOut).toHaveBeenCalledWith('dev\nprod\n');
+  });
+
+  test('when parseAsync with flag and async completer then candidates written', async () => {
+    const writeOut = jest.fn();
+    const program = new commander.Command();
+    program
+      .enableDynamicCompletion()
+      .exitOverride()
+      .configureOutput({ writeOut })
+      .addOption(
+        new commander.Option('--name <value>').complete(async () => ['alpha']),
+      );
+    await expect(
+      program.parseAsync(['--get-completions', '--name', ''], { from: 'user' }),
+    ).rejects.toThrow(
+      expect.objectContaining({ code: 'commander.completion' }),
+    );
+    expect(writeOut).toHaveBeenCalledWith('alpha\n');
+  });
+
+  test('when parse with flag and async completer then throws parseAsync error', () => {
+    const writeOut = jest.fn();
+    const program = new commander.Command();
+    program
+      .enableDynamicCompletion()
+      .exitOverride()
+      .configureOutput({ writeOut })
+      .addOption(
+        new commander.Option('--name <value>').complete(() =>
+          Promise.reject(new Error('failed')),
+        ),
+      );
+    expect(() => {
+      program.parse(['--get-completions', '--name', ''], { from: 'user' });
+    }).toThrow(
+      "Completion for command 'program' is asynchronous, so call .parseAsync() rather than .parse()",
+    );
+    expect(writeOut).not.toHaveBeenCalled();
+  });
+
+  test('when dynamic completion not enabled then flag is unknown option', () => {
+    const program = new commander.Command();
+    program.exitOverride().configureOutput({ writeErr: () => {} });
+    expect(() => {
+      program.parse(['--get-completions'], { from: 'user' });
+    }).toThrow(expect.objectContaining({ code: 'commander.unknownOption' }));
+  });
+
+  test('when flag not first argument then not treated as completion request', () => {
+    const program = new commander.Command();
+    program
+      .enableDynamicCompletion()
+      .exitOverride()
+      .configureOutput({ writeErr: () => {} });
+    program.command('serve');
+    expect(() => {
+      program.parse(['serve', '--get-completions'], { from: 'user' });
+    }).toThrow(expect.objectContaining({ code: 'commander.unknownOption' }));
+  });
+});
+
+describe.each(['bash', 'zsh', 'fish'])(
+  'dynamic completionScript(%s)',
+  (shell) => {
+    test('when dynamic completion enabled then script calls program with flag', () => {
+      const script = makeProgram().completionScript(shell);
+      expect(script).toMatch('pm --get-completions');
+    });
+
+    test('when dynamic completion enabled then script does not list subcommands', () => {
+      const script = makeProgram().completionScript(shell);
+      expect(script).not.toMatch('install');
+    });
+  },
+);
@@ -0,0 +1,135 @@
+const commander = require('../');
+
+afterEach(() => {
+  delete process.env.TEST_DEBUG;
+  delete process.env.TEST_NO_COLOR;
+});
+
+function makeProgram() {
+  const program = new commander.Command('app');
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .envBooleans()
+    .addOption(new commander.Option('--debug').env('TEST_DEBUG'))
+    .addOption(new commander.Option('--no-color').env('TEST_NO_COLOR'));
+  return program;
+}
+
+test.each(['1', 'true', 'YES', 'on'])(
+  'when boolean env is %j then option true',
+  (value) => {
+    const program = makeProgram();
+    process.env.TEST_DEBUG = value;
+    program.parse([], { from: 'user' });
+    expect(program.opts().debug).toBe(true);
+    expect(program.getOptionValueSource('debug')).toBe('env');
+  },
+);
+
+test.each(['0', 'false', 'No', ' off '])(
+  'when boolean env is %j then option false',
+  (value) => {
+    const program = makeProgram();
+    process.env.TEST_DEBUG = value;
+    program.parse([], { from: 'user' });
+    expect(program.opts().debug).toBe(false);
+  },
+);
+
+test('when negated env is true then option false', () => {
+  const program = makeProgram();
+  process.env.TEST_NO_COLOR = '1';
+  program.parse([], { from: 'user' });
+  expect(program.opts().color).toBe(false);
+});
+
+test('when negated env is false then option true', () => {
+  const program = makeProgram();
+  process.env.TEST_NO_COLOR = '0';
+  program.parse([], { from: 'user' });
+  expect(program.opts().color).toBe(true);
+  expect(program.getOptionValueSource('color')).toBe('env');
+});
+
+test('when boolean env unrecognised then error', () => {
+  const program = makeProgram();
+  process.env.TEST_DEBUG = 'maybe';
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(
+    expect.objectContaining({
+      code: 'commander.invalidArgument',
+      message:
+        "error: option '--debug' value 'maybe' from env 'TEST_DEBUG' is invalid. Not a boolean. Expected true or false, yes or no, on or off, or 1 or 0.",
+    }),
+  );
+});
+
+test('when boolean env is empty then error', () => {
+  const program = makeProgram();
+  process.env.TEST_DEBUG = '';
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(expect.objectContaining({ code: 'commander.invalidArgument' }));
+});
+
+test('when custom values then used instead of defaults', () => {
+  const program = makeProgram();
+  program.envBooleans({ true: ['Enabled'], false: ['disabled'] });
+  process.env.TEST_DEBUG = 'ENABLED';
+  process.env.TEST_NO_COLOR = 'disabled';
+  program.parse([], { from: 'user' });
+  expect(program.opts()).toEqual({ debug: true, color: true });
+});
+
+test('when custom values and unrecognised then error lists values', () => {
+  const program = makeProgram();
+  program.envBooleans({ true: ['enabled'], false: ['disabled'] });
+  process.env.TEST_DEBUG = '1';
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(
+    "error: option '--debug' value '1' from env 'TEST_DEBUG' is invalid. Not a boolean. Expected enabled for true, or disabled for false.",
+  );
+});
+
+test('when cli option then env not parsed', () => {
+  const program = makeProgram();
+  process.env.TEST_DEBUG = 'maybe';
+  program.parse(['--debug'], { from: 'user' });
+  expect(program.opts().debug).toBe(true);
+});
+
+test('when envBooleans(false) then any value is true', () => {
+  const program = makeProgram();
+  program.envBooleans(false);
+  process.env.TEST_DEBUG = '0';
+  program.parse([], { from: 'user' });
+  expect(program.opts().debug).toBe(true);
+});
+
+test('when option takes value then env value not parsed as boolean', () => {
+  const program = new commander.Command();
+  program
+    .envBooleans()
+    .addOption(new commander.Option('--level <name>').env('TEST_DEBUG'));
+  process.env.TEST_DEBUG = 'high';
+  program.parse([], { from: 'user' });
+  expect(program.opts().level).toBe('high');
+});
+
+test('when subcommand then setting inherited', () => {
+  const action = jest.fn();
+  const program = makeProgram();
+  program
+    .command('sub')
+    .addOption(new commander.Option('--verbose').env('TEST_DEBUG'))
+    .action(action);
+  process.env.TEST_DEBUG = 'off';
+  program.parse(['sub'], { from: 'user' });
+  expect(action).toHaveBeenCalledWith(
+    { verbose: false },
+    expect.any(commander.Command),
+  );
+});
@@ -0,0 +1,171 @@
+const commander = require('../');
+
+// Remove the test environment variables after each test.
+const envNames = [];
+function setEnv(name, value) {
+  envNames.push(name);
+  process.env[name] = value;
+}
+
+afterEach(() => {
+  envNames.splice(0).forEach((name) => delete process.env[name]);
+});
+
+function makeProgram() {
+  const program = new commander.Command('tool');
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .envPrefix('MYTOOL')
+    .option('--dry-run')
+    .option('--port <number>');
+  return program;
+}
+
+test('when env var set for option then option value from env', () => {
+  const program = makeProgram();
+  setEnv('MYTOOL_PORT', '8080');
+  setEnv('MYTOOL_DRY_RUN', '');
+  program.parse([], { from: 'user' });
+  expect(program.opts()).toEqual({ port: '8080', dryRun: true });
+  expect(program.getOptionValueSource('port')).toBe('env');
+});
+
+test('when option on command line then overrides env', () => {
+  const program = makeProgram();
+  setEnv('MYTOOL_PORT', '8080');
+  program.parse(['--port', '80'], { from: 'user' });
+  expect(program.opts().port).toBe('80');
+});
+
+test('when prefix has trailing underscore then not doubled', () => {
+  const program = new commander.Command();
+  program.envPrefix('MYTOOL_').option('--port <number>');
+  setEnv('MYTOOL_PORT', '8080');
+  program.parse([], { from: 'user' });
+  expect(program.opts().port).toBe('8080');
+});
+
+test('when option has explicit env then explicit name used', () => {
+  const program = makeProgram();
+  program.addOption(new commander.Option('--host <name>').env('HOST_NAME'));
+  setEnv('MYTOOL_HOST', 'ignored');
+  setEnv('HOST_NAME', 'example.com');
+  program.parse([], { from: 'user' });
+  expect(program.opts().host).toBe('example.com');
+  expect(program.options[2].envVar).toBe('HOST_NAME');
+});
+
+test('when negated option alone then env var uses negated name', () => {
+  const program = makeProgram();
+  program.option('--no-color');
+  setEnv('MYTOOL_NO_COLOR', '1');
+  program.parse([], { from: 'user' });
+  expect(program.opts().color).toBe(false);
+});
+
+test('when positive and negated options then only positive option mapped', () => {
+  const program = makeProgram();
+  program.option('--color').option('--no-color');
+  setEnv('MYTOOL_NO_COLOR', '1');
+  program.parse([], { from: 'user' });
+  expect(program.opts().color).toBeUndefined();
+  expect(program.helpInformation()).toMatch(/--color +\(env: MYTOOL_COLOR\)/);
+  expect(program.helpInformation()).not.toMatch('MYTOOL_NO_COLOR');
+});
+
+test('when option read from file then companion option not mapped', () => {
+  const program = makeProgram();
+  program.addOption(new commander.Option('--token <value>').fromFile());
+  setEnv('MYTOOL_TOKEN_FILE', 'ignored');
+  program.parse([], { from: 'user' });
+  expect(program.opts().tokenFile).toBeUndefined();
+  expect(program.helpInformation()).not.toMatch('MYTOOL_TOKEN_FILE');
+});
+
+test('when version option then not mapped to env var', () => {
+  const program = makeProgram();
+  program.version('1.2.3');
+  setEnv('MYTOOL_VERSION', '1');
+  program.parse([], { from: 'user' });
+  expect(program.opts().version).toBeUndefined();
+});
+
+test('when subcommand option then env var includes command name', () => {
+  const action = jest.fn();
+  const program = makeProgram();
+  program.command('deploy-app').option('--region <name>').action(action);
+  setEnv('MYTOOL_DEPLOY_APP_REGION', 'eu');
+  program.parse(['deploy-app'], { from: 'user' });
+  expect(action).toHaveBeenCalledWith(
+    { region: 'eu' },
+    expect.any(commander.Command),
+  );
+});
+
+test('when subcommand has own prefix then own prefix used', () => {
+  const action = jest.fn();
+  const program = makeProgram();
+  program
+    .command('deploy')
+    .envPrefix('DEPLOY')
+    .option('--region <name>')
+    .action(action);
+  setEnv('DEPLOY_REGION', 'eu');
+  program.parse(['deploy'], { from: 'user' });
+  expect(action).toHaveBeenCalledWith(
+    { region: 'eu' },
+    expect.any(commander.Command),
+  );
+});
+
+test('when env value invalid then error mentions derived env var', () => {
+  const program = makeProgram();
+  program.addOption(new commander.Option('--retries <count>').int());
+  setEnv('MYTOOL_RETRIES', 'many');
+  expect(() => {
+    program.parse([], { from: 'user' });
+  }).toThrow(
+    "error: option '--retries <count>' value 'many' from env 'MYTOOL_RETRIES' is invalid. Not an integer.",
+  );
+});
+
+test('when envPrefix(false) then env vars not used', () => {
+  const program = makeProgram();
+  program.envPrefix(false);
+  setEnv('MYTOOL_PORT', '8080');
+  program.parse([], { from: 'user' });
+  expect(program.opts().port).toBeUndefined();
+});
+
+test('when help then shows derived env var names', () => {
+  const program = new commander.Command('tool');
+  program.envPrefix('MYTOOL').option('--dry-run', 'show changes');
+  const deploy = program.command('deploy').option('--region <name>', 'region');
+  expect(program.helpInformation()).toMatch(
+    /--dry-run +show changes \(env: MYTOOL_DRY_RUN\)/,
+  );
+  expect(deploy.helpInformation()).toMatch(
+    /--region <name> +region \(env: MYTOOL_DEPLOY_REGION\)/,
+  );
+});
+
+test('when describe then includes derived env var names', () => {
+  const program = new commander.Command('tool');
+  program.envPrefix('MYTOOL');
+  program.command('deploy').option('--region <name>');
+  const description = program.describe();
+  expect(description.commands[0].options[0].envVar).toBe(
+    'MYTOOL_DEPLOY_REGION',
+  );
+});
+
+test('when help or describe then options not changed', () => {
+  const program = new commander.Command('tool');
+  program.envPrefix('MYTOOL').option('--dry-run', 'show changes');
+  program.command('deploy').option('--region <name>', 'region');
+  program.helpInformation();
+  program.describe();
+  expect(program.options[0].envVar).toBeUndefined();
+  expect(program.commands[0].options[0].envVar).toBeUndefined();
+});
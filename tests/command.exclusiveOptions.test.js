@@ -0,0 +1,206 @@
+const commander = require('../');
+
+function makeProgram() {
+  const actionMock = jest.fn();
+  const program = new commander.Command('app');
+  program
+    .exitOverride()
+    .configureOutput({
+      writeErr: () => {},
+      writeOut: () => {},
+    })
+    .option('--file <path>')
+    .option('--url <address>')
+    .option('--stdin')
+    .action(actionMock);
+  return { program, actionMock };
+}
+
+describe('exclusiveOptions', () => {
+  test('when one option used then action called', () => {
+    const { program, actionMock } = makeProgram();
+    program.exclusiveOptions(['file', 'url', 'stdin']);
+    program.parse(['--url', 'x'], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when no option used and not required then action called', () => {
+    const { program, actionMock } = makeProgram();
+    program.exclusiveOptions(['file', 'url', 'stdin']);
+    program.parse([], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when two options used then conflicting option error', () => {
+    const { program } = makeProgram();
+    program.exclusiveOptions(['file', 'url', 'stdin']);
+    expect(() => {
+      program.parse(['--stdin', '--file', 'x'], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.conflictingOption',
+        message:
+          "error: option '--file <path>' cannot be used with option '--stdin'",
+      }),
+    );
+  });
+
+  test('when no option used and required then missing error', () => {
+    const { program } = makeProgram();
+    program.exclusiveOptions(['file', 'url', 'stdin'], { required: true });
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.missingOneOfOptions',
+        message:
+          'error: one of the options (--file | --url | --stdin) is required',
+      }),
+    );
+  });
+
+  test('when option has default value then does not count as used', () => {
+    const { program } = makeProgram();
+    program
+      .option('--format <name>', 'output format', 'json')
+      .option('--raw')
+      .exclusiveOptions(['format', 'raw']);
+    program.parse(['--raw'], { from: 'user' });
+    expect(program.opts()).toEqual({ format: 'json', raw: true });
+  });
+
+  test('when option from env then counts as used', () => {
+    const { program } = makeProgram();
+    program
+      .addOption(new commander.Option('--token <value>').env('TEST_TOKEN'))
+      .option('--anonymous')
+      .exclusiveOptions(['token', 'anonymous']);
+    process.env.TEST_TOKEN = 'secret';
+    expect(() => {
+      program.parse(['--anonymous'], { from: 'user' });
+    }).toThrow(
+      "error: environment variable 'TEST_TOKEN' cannot be used with option '--anonymous'",
+    );
+    delete process.env.TEST_TOKEN;
+  });
+
+  test('when negated and positive option both in group then not a conflict', () => {
+    const { program, actionMock } = makeProgram();
+    program
+      .option('--color')
+      .option('--no-color')
+      .option('--mono')
+      .exclusiveOptions(['color', 'mono']);
+    program.parse(['--color', '--no-color'], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when name is not an option then throws', () => {
+    const { program } = makeProgram();
+    program.option('--dry-run').exclusiveOptions(['file', 'dry-run']);
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      "Unknown option 'dry-run' passed to .exclusiveOptions() for command 'app'",
+    );
+  });
+
+  test('when name is not an option in subcommand then parse throws', () => {
+    const { program } = makeProgram();
+    program.command('sub').option('--file').exclusiveOptions(['file', 'url']);
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      "Unknown option 'url' passed to .exclusiveOptions() for command 'sub'",
+    );
+  });
+
+  test('when only negated option then group uses negated flag', () => {
+    const { program } = makeProgram();
+    program
+      .option('--no-color')
+      .exclusiveOptions(['file', 'color'], { required: true });
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow('error: one of the options (--file | --no-color) is required');
+  });
+
+  test('when subcommand used then checks program options too', () => {
+    const { program } = makeProgram();
+    program.exclusiveOptions(['file', 'url'], { required: true });
+    program.command('sub').action(() => {});
+    expect(() => {
+      program.parse(['sub'], { from: 'user' });
+    }).toThrow('error: one of the options (--file | --url) is required');
+  });
+});
+
+describe('requireOneOf', () => {
+  test('when several options used then action called', () => {
+    const { program, actionMock } = makeProgram();
+    program.requireOneOf(['file', 'url']);
+    program.parse(['--file', 'a', '--url', 'b'], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when no option used then missing error', () => {
+    const { program } = makeProgram();
+    program.requireOneOf(['file', 'url']);
+    expect(() => {
+      program.parse(['--stdin'], { from: 'user' });
+    }).toThrow('error: one of the options (--file | --url) is required');
+  });
+
+  test('when aggregating errors then reported with other errors', () => {
+    const { program } = makeProgram();
+    program
+      .aggregateErrors()
+      .requiredOption('--name <value>')
+      .requireOneOf(['file', 'url']);
+    let caughtErr;
+    try {
+      program.parse([], { from: 'user' });
+    } catch (err) {
+      caughtErr = err;
+    }
+    expect(caughtErr.errors.map((err) => err.code)).toEqual([
+      'commander.missingMandatoryOptionValue',
+      'commander.missingOneOfOptions',
+    ]);
+  });
+});
+
+describe('usage', () => {
+  test('when exclusive options then usage shows group in brackets', () => {
+    const { program } = makeProgram();
+    program.exclusiveOptions(['file', 'url']);
+    expect(program.usage()).toBe('[options] [--file | --url]');
+  });
+
+  test('when required exclusive options then usage shows group in parentheses', () => {
+    const { program } = makeProgram();
+    program.exclusiveOptions(['file', 'url', 'stdin'], { required: true });
+    program.argument('[extra]');
+    expect(program.usage()).toBe(
+      '[options] (--file | --url | --stdin) [extra]',
+    );
+  });
+
+  test('when name is not an option then help throws', () => {
+    const { program } = makeProgram();
+    program.requireOneOf(['file', 'dryRun']);
+    expect(() => {
+      program.helpInformation();
+    }).toThrow(
+      "Unknown option 'dryRun' passed to .requireOneOf() for command 'app'",
+    );
+  });
+
+  test('when requireOneOf then usage shows group in parentheses', () => {
+    const { program } = makeProgram();
+    program.option('-q').requireOneOf(['url', 'q']);
+    expect(program.helpInformation()).toMatch(
+      /^Usage: app \[options\] \(--url \| -q\)\n/,
+    );
+  });
+});
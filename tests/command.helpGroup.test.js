@@ -0,0 +1,164 @@
+const commander = require('../');
+
+describe('option groups', () => {
+  test('when option has helpGroup then listed under heading', () => {
+    const program = new commander.Command('app');
+    program
+      .option('-v, --verbose', 'more output')
+      .addOption(
+        new commander.Option('--port <number>', 'port').helpGroup('Networking'),
+      );
+    expect(program.helpInformation()).toBe(`Usage: app [options]
+
+Options:
+  -v, --verbose    more output
+  -h, --help       display help for command
+
+Networking:
+  --port <number>  port
+`);
+  });
+
+  test('when optionsGroup then later options listed under heading', () => {
+    const program = new commander.Command('app');
+    program
+      .option('-v, --verbose', 'more output')
+      .optionsGroup('Networking')
+      .option('--port <number>', 'port')
+      .option('--host <name>', 'host');
+    const helpInformation = program.helpInformation();
+    expect(helpInformation).toMatch(
+      /Networking:\n {2}--port <number> +port\n {2}--host <name> +host\n/,
+    );
+    expect(program.options.map((option) => option.helpGroupHeading)).toEqual([
+      undefined,
+      'Networking',
+      'Networking',
+    ]);
+  });
+
+  test('when option has own group then optionsGroup not applied', () => {
+    const program = new commander.Command();
+    program
+      .optionsGroup('Networking')
+      .addOption(new commander.Option('--debug').helpGroup('Developer'));
+    expect(program.options[0].helpGroupHeading).toBe('Developer');
+  });
+
+  test('when first option in custom group then custom group listed first', () => {
+    const program = new commander.Command('app');
+    program
+      .addOption(
+        new commander.Option('--port <number>').helpGroup('Networking'),
+      )
+      .option('-v, --verbose');
+    const helpInformation = program.helpInformation();
+    expect(helpInformation.indexOf('Networking:')).toBeLessThan(
+      helpInformation.indexOf('Options:'),
+    );
+  });
+
+  test('when group only has hidden options then heading not listed', () => {
+    const program = new commander.Command('app');
+    program.addOption(
+      new commander.Option('--secret').helpGroup('Hidden').hideHelp(),
+    );
+    expect(program.helpInformation()).not.toContain('Hidden:');
+  });
+
+  test('when sortOptions then sorted within each group', () => {
+    const program = new commander.Command('app');
+    program
+      .configureHelp({ sortOptions: true })
+      .option('--zebra')
+      .option('--apple')
+      .optionsGroup('Networking')
+      .option('--port <number>')
+      .option('--host <name>');
+    expect(program.helpInformation()).toBe(`Usage: app [options]
+
+Options:
+  --apple
+  -h, --help       display help for command
+  --zebra
+
+Networking:
+  --host <name>
+  --port <number>
+`);
+  });
+});
+
+describe('command groups', () => {
+  test('when subcommand has helpGroup then listed under heading', () => {
+    const program = new commander.Command('app');
+    program.command('serve').description('serve files');
+    program.command('login').description('log in').helpGroup('Account');
+    expect(program.helpInformation()).toBe(`Usage: app [options] [command]
+
+Options:
+  -h, --help      display help for command
+
+Commands:
+  serve           serve files
+  help [command]  display help for command
+
+Account:
+  login           log in
+`);
+  });
+
+  test('when helpGroup called without heading then returns heading', () => {
+    const program = new commander.Command();
+    const sub = program.command('login').helpGroup('Account');
+    expect(sub.helpGroup()).toBe('Account');
+    expect(program.command('serve').helpGroup()).toBeUndefined();
+  });
+
+  test('when commandsGroup then later subcommands listed under heading', () => {
+    const program = new commander.Command('app');
+    program.command('serve');
+    program.commandsGroup('Account');
+    program.command('login');
+    program.addCommand(new commander.Command('logout'));
+    expect(program.helpInformation()).toMatch(
+      /Account:\n {2}login\n {2}logout\n/,
+    );
+  });
+
+  test('when sortSubcommands then sorted within each group', () => {
+    const program = new commander.Command('app');
+    program.configureHelp({ sortSubcommands: true }).helpCommand(false);
+    program.command('zebra');
+    program.command('apple');
+    program.commandsGroup('Account');
+    program.command('logout');
+    program.command('login');
+    expect(program.helpInformation()).toMatch(
+      /Commands:\n {2}apple\n {2}zebra\n\nAccount:\n {2}login\n {2}logout\n/,
+    );
+  });
+});
+
+describe('Help.groupItems()', () => {
+  test('when group items then groups in order of unsorted items', () => {
+    const helper = new commander.Help();
+    const groups = helper.groupItems(
+      ['b1', 'a1', 'b2'],
+      ['a1', 'b1', 'b2'],
+      (item) => item[0],
+    );
+    expect([...groups.entries()]).toEqual([
+      ['b', ['b1', 'b2']],
+      ['a', ['a1']],
+    ]);
+  });
+
+  test('when visible item not in unsorted items then group added at end', () => {
+    const helper = new commander.Help();
+    const groups = helper.groupItems(['a1'], ['a1', 'help'], (item) =>
+      item === 'help' ? 'Options' : 'Group',
+    );
+    expect([...groups.keys()]).toEqual(['Group', 'Options']);
+  });
+});
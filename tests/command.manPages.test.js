@@ -0,0 +1,132 @@
+const commander = require('../');
+
+function makeProgram() {
+  const program = new commander.Command('pm');
+  program
+    .description('package manager for .js files')
+    .option('-d, --debug', 'output debugging')
+    .addOption(
+      new commander.Option('-c, --color <name>', 'colour')
+        .choices(['red', 'green'])
+        .default('red')
+        .env('PM_COLOR'),
+    )
+    .addOption(new commander.Option('--secret', 'hidden option').hideHelp());
+  program
+    .command('install')
+    .alias('i')
+    .summary('install a package')
+    .argument('<package...>', 'packages to install')
+    .option('--save', 'save to dependencies')
+    .command('deep')
+    .description('nested command');
+  program.command('internal', { hidden: true });
+  return program;
+}
+
+const options = { date: '2024-01-31', source: 'pm 1.0.0', manual: 'PM Manual' };
+
+test('when manPages then one page per visible command', () => {
+  const pages = makeProgram().manPages(options);
+  expect(pages.map((page) => page.name)).toEqual([
+    'pm.1',
+    'pm-install.1',
+    'pm-install-deep.1',
+  ]);
+});
+
+test('when manPages with section then section used in names and header', () => {
+  const pages = makeProgram().manPages({ ...options, section: 8 });
+  expect(pages[0].name).toBe('pm.8');
+  expect(pages[0].content).toMatch(/^\.TH "PM" "8" "2024-01-31"/);
+});
+
+test('when manPages then page has header and name', () => {
+  const content = makeProgram().manPages(options)[0].content;
+  expect(content).toMatch(
+    /^\.TH "PM" "1" "2024-01-31" "pm 1\.0\.0" "PM Manual"\n\.SH NAME\npm \\- package manager for \.js files\n/,
+  );
+});
+
+test('when manPages then synopsis from usage', () => {
+  const content = makeProgram().manPages(options)[0].content;
+  expect(content).toMatch('.SH SYNOPSIS\n.B pm\n[options] [command]\n');
+});
+
+test('when manPages then options include extra info and escaped hyphens', () => {
+  const content = makeProgram().manPages(options)[0].content;
+  expect(content).toMatch(
+    '.TP\n\\fB\\-c, \\-\\-color <name>\\fR\ncolour (choices: "red", "green", default: "red", env: PM_COLOR)\n',
+  );
+  expect(content).not.toMatch('secret');
+});
+
+test('when manPages then commands section lists visible subcommands', () => {
+  const content = makeProgram().manPages(options)[0].content;
+  expect(content).toMatch('.SH COMMANDS\n');
+  expect(content).toMatch(
+    '.TP\n\\fBinstall|i [options] <package...>\\fR\ninstall a package\n',
+  );
+  expect(content).not.toMatch('internal');
+});
+
+test('when manPages then subcommand page has arguments and global options', () => {
+  const program = makeProgram();
+  program.commands[0].configureHelp({ showGlobalOptions: true });
+  const content = program.manPages(options)[1].content;
+  expect(content).toMatch(/^\.TH "PM-INSTALL" "1"/);
+  expect(content).toMatch('.SH NAME\npm\\-install \\- install a package\n');
+  expect(content).toMatch('.SH SYNOPSIS\n.B pm install\n');
+  expect(content).toMatch(
+    '.SH ARGUMENTS\n.TP\n\\fBpackage\\fR\npackages to install\n',
+  );
+  expect(content).toMatch('.SH GLOBAL OPTIONS\n.TP\n\\fB\\-d, \\-\\-debug\\fR');
+});
+
+test('when not showGlobalOptions then no global options section', () => {
+  const content = makeProgram().manPages(options)[1].content;
+  expect(content).not.toMatch('.SH GLOBAL OPTIONS');
+});
+
+test('when envPrefix then global options show derived env var', () => {
+  const program = makeProgram().envPrefix('PM');
+  program.commands[0].configureHelp({ showGlobalOptions: true });
+  const content = program.manPages(options)[1].content;
+  expect(content).toMatch(
+    '.SH GLOBAL OPTIONS\n.TP\n\\fB\\-d, \\-\\-debug\\fR\noutput debugging (env: PM_DEBUG)',
+  );
+  expect(content).not.toMatch('PM_SECRET');
+});
+
+test('when manPages then see also links parent and subcommand pages', () => {
+  const content = makeProgram().manPages(options)[1].content;
+  expect(content).toMatch(
+    '.SH SEE ALSO\n\\fBpm\\fR(1),\n\\fBpm\\-install\\-deep\\fR(1)\n',
+  );
+});
+
+test('when description has leading period then escaped', () => {
+  const program = new commander.Command('pm');
+  program.description('first line\n.hidden roff request');
+  const content = program.manPages(options)[0].content;
+  expect(content).toMatch('first line\n\\&.hidden roff request');
+});
+
+test('when escape then backslash escaped', () => {
+  const formatter = new commander.ManFormatter();
+  expect(formatter.escape('a\\b')).toBe('a\\eb');
+});
+
+test('when ManFormatter subclass then override used', () => {
+  class MyFormatter extends commander.ManFormatter {
+    pageName(cmd) {
+      return `my-${super.pageName(cmd)}`;
+    }
+  }
+  const program = makeProgram();
+  const pages = new MyFormatter(options).formatManPages(
+    program,
+    program.createHelp(),
+  );
+  expect(pages[0].name).toBe('my-pm.1');
+});
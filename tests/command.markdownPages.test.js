@@ -0,0 +1,100 @@
+const commander = require('../');
+
+function makeProgram() {
+  const program = new commander.Command('pm');
+  program
+    .description('package manager')
+    .addOption(
+      new commander.Option('-c, --color <name>', 'colour')
+        .choices(['red', 'green'])
+        .default('red')
+        .env('PM_COLOR'),
+    )
+    .addOption(new commander.Option('--secret', 'hidden option').hideHelp())
+    .addHelpText('after', '\nExample call:\n  $ pm install lodash');
+  program
+    .command('install')
+    .alias('i')
+    .summary('install a package')
+    .argument('<package...>', 'packages to install | more')
+    .option('--save', 'save to dependencies');
+  program.command('internal', { hidden: true });
+  return program;
+}
+
+test('when markdownPages then single page for program', () => {
+  const pages = makeProgram().markdownPages();
+  expect(pages.map((page) => page.name)).toEqual(['pm.md']);
+});
+
+test('when markdownPages then includes heading, description, and usage', () => {
+  const content = makeProgram().markdownPages()[0].content;
+  expect(content).toMatch(
+    /^# pm\n\npackage manager\n\n## Usage\n\n```\npm \[options\] \[command\]\n```\n/,
+  );
+});
+
+test('when markdownPages then options table includes choices, default, and env', () => {
+  const content = makeProgram().markdownPages()[0].content;
+  expect(content).toMatch(
+    '| `-c, --color <name>` | colour (choices: "red", "green", default: "red", env: PM_COLOR) |',
+  );
+  expect(content).not.toMatch('secret');
+});
+
+test('when markdownPages then subcommand documented with deeper headings', () => {
+  const content = makeProgram().markdownPages()[0].content;
+  expect(content).toMatch('\n## pm install\n\n');
+  expect(content).toMatch('\n### Arguments\n');
+  expect(content).not.toMatch('internal');
+});
+
+test('when markdownPages then table cells escape pipes', () => {
+  const content = makeProgram().markdownPages()[0].content;
+  expect(content).toMatch('| `package` | packages to install \\| more |');
+});
+
+test('when markdownPages then subcommand linked to heading', () => {
+  const content = makeProgram().markdownPages()[0].content;
+  expect(content).toMatch(
+    '| [`install\\|i [options] <package...>`](#pm-install) | install a package |',
+  );
+  expect(content).toMatch('| `help [command]` | display help for command |');
+});
+
+test('when markdownPages with split then one page per command linked by file', () => {
+  const pages = makeProgram().markdownPages({ split: true });
+  expect(pages.map((page) => page.name)).toEqual(['pm.md', 'pm-install.md']);
+  expect(pages[0].content).toMatch('](pm-install.md)');
+  expect(pages[1].content).toMatch(/^# pm install\n/);
+});
+
+test('when addHelpText then text included in code block', () => {
+  const content = makeProgram().markdownPages()[0].content;
+  expect(content).toMatch('```\nExample call:\n  $ pm install lodash\n```');
+});
+
+test('when addHelpText function then called with command', () => {
+  const program = new commander.Command('pm');
+  const text = jest.fn(() => 'before text');
+  program.addHelpText('before', text);
+  const content = program.markdownPages()[0].content;
+  expect(text).toHaveBeenCalledWith({ error: false, command: program });
+  expect(content).toMatch('```\nbefore text\n```');
+});
+
+test('when markdownPages then help text not written to output', () => {
+  const writeOut = jest.fn();
+  const program = makeProgram();
+  program.configureOutput({ writeOut });
+  program.markdownPages();
+  expect(writeOut).not.toHaveBeenCalled();
+});
+
+test('when showGlobalOptions then subcommand includes global options', () => {
+  const program = new commander.Command('pm');
+  program.configureHelp({ showGlobalOptions: true }).option('--debug');
+  program.command('sub');
+  const content = program.markdownPages({ split: true })[1].content;
+  expect(content).toMatch('## Global Options\n\n| Option | Description |');
+});
@@ -0,0 +1,147 @@
+const commander = require('../');
+
+describe('parseResult', () => {
+  test('when parse options then returns program with opts', () => {
+    const program = new commander.Command();
+    program.option('-d, --debug').option('-p, --port <number>');
+    const result = program.parseResult(['-d', '--port', '80'], {
+      from: 'user',
+    });
+    expect(result.command).toBe(program);
+    expect(result.opts).toEqual({ debug: true, port: '80' });
+    expect(result.errors).toEqual([]);
+  });
+
+  test('when parse subcommand then returns subcommand with args and opts', () => {
+    const program = new commander.Command();
+    const serve = program
+      .command('serve')
+      .argument('<dir>')
+      .option('--port <number>', 'port', '3000');
+    const result = program.parseResult(['serve', 'public'], { from: 'user' });
+    expect(result.command).toBe(serve);
+    expect(result.args).toEqual(['public']);
+    expect(result.opts).toEqual({ port: '3000' });
+  });
+
+  test('when parse then action handler and hooks not called', () => {
+    const action = jest.fn();
+    const hook = jest.fn();
+    const program = new commander.Command();
+    program.hook('preAction', hook).hook('preSubcommand', hook);
+    program.command('sub').action(action);
+    program.parseResult(['sub'], { from: 'user' });
+    expect(action).not.toHaveBeenCalled();
+    expect(hook).not.toHaveBeenCalled();
+  });
+
+  test('when unknown option then returns error without output or exit', () => {
+    const writeErr = jest.fn();
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => {});
+    const program = new commander.Command();
+    program.configureOutput({ writeErr });
+    const result = program.parseResult(['--unknown'], { from: 'user' });
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toBeInstanceOf(commander.CommanderError);
+    expect(result.errors[0].code).toBe('commander.unknownOption');
+    expect(writeErr).not.toHaveBeenCalled();
+    expect(exitSpy).not.toHaveBeenCalled();
+    exitSpy.mockRestore();
+  });
+
+  test('when exitOverride then error returned rather than passed to callback', () => {
+    const callback = jest.fn();
+    const program = new commander.Command();
+    program.exitOverride(callback).configureOutput({ writeErr: () => {} });
+    program.argument('<file>');
+    const result = program.parseResult([], { from: 'user' });
+    expect(result.errors[0].code).toBe('commander.missingArgument');
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  test('when invalid choice then returns error', () => {
+    const program = new commander.Command();
+    program.addOption(
+      new commander.Option('--color <name>').choices(['red', 'green']),
+    );
+    const result = program.parseResult(['--color', 'blue'], { from: 'user' });
+    expect(result.errors[0].code).toBe('commander.invalidArgument');
+  });
+
+  test('when mandatory option missing in subcommand then returns error and subcommand', () => {
+    const program = new commander.Command();
+    const sub = program.command('sub').requiredOption('--name <value>');
+    const result = program.parseResult(['sub'], { from: 'user' });
+    expect(result.command).toBe(sub);
+    expect(result.errors[0].code).toBe('commander.missingMandatoryOptionValue');
+  });
+
+  test('when conflicting options then returns error', () => {
+    const program = new commander.Command();
+    program
+      .addOption(new commander.Option('--json').conflicts('csv'))
+      .option('--csv');
+    const result = program.parseResult(['--json', '--csv'], { from: 'user' });
+    expect(result.errors[0].code).toBe('commander.conflictingOption');
+  });
+
+  test('when env and implied values then included in opts', () => {
+    const program = new commander.Command();
+    program
+      .addOption(
+        new commander.Option('--name <value>').env('PARSE_RESULT_NAME'),
+      )
+      .addOption(new commander.Option('--quiet').implies({ log: false }));
+    process.env.PARSE_RESULT_NAME = 'env';
+    const result = program.parseResult(['--quiet'], { from: 'user' });
+    delete process.env.PARSE_RESULT_NAME;
+    expect(result.opts).toEqual({ name: 'env', quiet: true, log: false });
+  });
+
+  test('when help requested then returns help error without output', () => {
+    const writeOut = jest.fn();
+    const program = new commander.Command();
+    program.configureOutput({ writeOut });
+    const result = program.parseResult(['--help'], { from: 'user' });
+    expect(result.errors[0].code).toBe('commander.helpDisplayed');
+    expect(result.errors[0].exitCode).toBe(0);
+    expect(writeOut).not.toHaveBeenCalled();
+  });
+
+  test('when version requested then returns version error without output', () => {
+    const writeOut = jest.fn();
+    const program = new commander.Command();
+    program.version('1.2.3').configureOutput({ writeOut });
+    const result = program.parseResult(['-V'], { from: 'user' });
+    expect(result.errors[0].code).toBe('commander.version');
+    expect(writeOut).not.toHaveBeenCalled();
+  });
+
+  test('when executable subcommand then returns subcommand without running it', () => {
+    const program = new commander.Command();
+    program.command('install [name]', 'install package');
+    const result = program.parseResult(['install', 'foo'], { from: 'user' });
+    expect(result.command.name()).toBe('install');
+    expect(result.command.args).toEqual(['foo']);
+    expect(result.errors).toEqual([]);
+  });
+
+  test('when parseResult called then later parse runs action', () => {
+    const action = jest.fn();
+    const program = new commander.Command();
+    program.action(action);
+    program.parseResult([], { from: 'user' });
+    program.parse([], { from: 'user' });
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  test('when custom parser throws other error then error thrown', () => {
+    const program = new commander.Command();
+    program.option('--fail <value>', 'fail', () => {
+      throw new Error('oops');
+    });
+    expect(() => {
+      program.parseResult(['--fail', 'x'], { from: 'user' });
+    }).toThrow('oops');
+  });
+});
@@ -0,0 +1,100 @@
+const commander = require('../');
+
+function parseArgs(commandLine) {
+  const program = new commander.Command();
+  program.allowUnknownOption().argument('[args...]');
+  program.parse(commandLine, { from: 'string' });
+  return program.args;
+}
+
+describe('tokenizing', () => {
+  test.each([
+    ['deploy --dry-run', ['deploy', '--dry-run']],
+    ['  spaced   out\targs  ', ['spaced', 'out', 'args']],
+    ["--env 'prod eu'", ['--env', 'prod eu']],
+    ['--env "prod eu"', ['--env', 'prod eu']],
+    ["--message='hello world'", ['--message=hello world']],
+    ['a\\ b', ['a b']],
+    ["'it''s'", ['its']],
+    ['"it\'s"', ["it's"]],
+    ['\'say "hi"\'', ['say "hi"']],
+    ['"say \\"hi\\""', ['say "hi"']],
+    ['"back\\\\slash"', ['back\\slash']],
+    ['"keep \\n"', ['keep \\n']],
+    ["'keep \\'", ['keep \\']],
+    ['"" x', ['', 'x']],
+    ['', []],
+  ])('when parse %j then args are %j', (commandLine, expected) => {
+    expect(parseArgs(commandLine)).toEqual(expected);
+  });
+});
+
+test('when parse string then options and subcommand parsed', () => {
+  const program = new commander.Command();
+  const deploy = jest.fn();
+  program
+    .command('deploy')
+    .option('--env <name>')
+    .option('--dry-run')
+    .action(deploy);
+  program.parse("deploy --env 'prod eu' --dry-run", { from: 'string' });
+  expect(deploy.mock.calls[0][0]).toEqual({ env: 'prod eu', dryRun: true });
+});
+
+test('when parse string with -- then following args are operands', () => {
+  const program = new commander.Command();
+  program.option('--flag').argument('[args...]');
+  program.parse("-- --flag '--quoted'", { from: 'string' });
+  expect(program.opts()).toEqual({});
+  expect(program.processedArgs).toEqual([['--flag', '--quoted']]);
+});
+
+test('when parseAsync string then action called', async () => {
+  const program = new commander.Command();
+  const action = jest.fn();
+  program.argument('<name>').action(action);
+  await program.parseAsync('"my name"', { from: 'string' });
+  expect(action.mock.calls[0][0]).toBe('my name');
+});
+
+test('when parseResult string then returns parsed values', () => {
+  const program = new commander.Command();
+  program.option('--port <number>');
+  const result = program.parseResult("--port '80'", { from: 'string' });
+  expect(result.opts).toEqual({ port: '80' });
+});
+
+test('when unterminated quote then invalidCommandLine error', () => {
+  const program = new commander.Command();
+  program.exitOverride().configureOutput({ writeErr: () => {} });
+  expect(() => {
+    program.parse("deploy --env 'prod", { from: 'string' });
+  }).toThrow(
+    expect.objectContaining({
+      code: 'commander.invalidCommandLine',
+      message: "error: unterminated ' quote in 'deploy --env 'prod'",
+    }),
+  );
+});
+
+test('when parseResult unterminated quote then error returned', () => {
+  const program = new commander.Command();
+  const result = program.parseResult('"oops', { from: 'string' });
+  expect(result.errors[0].code).toBe('commander.invalidCommandLine');
+});
+
+test('when from string with array then throws', () => {
+  const program = new commander.Command();
+  expect(() => {
+    program.parse(['deploy'], { from: 'string' });
+  }).toThrow(
+    "first parameter to parse must be a string when using { from: 'string' }",
+  );
+});
+
+test('when string without from string then throws', () => {
+  const program = new commander.Command();
+  expect(() => {
+    program.parse('deploy');
+  }).toThrow('first parameter to parse must be array or undefined');
+});
@@ -0,0 +1,190 @@
+const commander = require('../');
+
+// Drive the prompts through the output configuration, answering in order.
+function makeProgram(answers, interactive = true) {
+  const prompts = [];
+  const output = [];
+  const program = new commander.Command();
+  program
+    .exitOverride()
+    .promptForMissing()
+    .configureOutput({
+      writeOut: (str) => output.push(str),
+      writeErr: () => {},
+      isInteractive: () => interactive,
+      readInput: (prompt, options) => {
+        prompts.push({ prompt, sensitive: options.sensitive });
+        return Promise.resolve(answers.shift() ?? '');
+      },
+    });
+  return { program, prompts, output };
+}
+
+test('when mandatory option missing then prompts for value', async () => {
+  const { program, prompts } = makeProgram(['alice']);
+  program.requiredOption('--name <value>');
+  await program.parseAsync([], { from: 'user' });
+  expect(prompts).toEqual([
+    { prompt: "Enter option '--name <value>': ", sensitive: false },
+  ]);
+  expect(program.opts().name).toBe('alice');
+  expect(program.getOptionValueSource('name')).toBe('prompt');
+});
+
+test('when mandatory option specified then no prompt', async () => {
+  const { program, prompts } = makeProgram([]);
+  program.requiredOption('--name <value>');
+  await program.parseAsync(['--name', 'bob'], { from: 'user' });
+  expect(prompts).toEqual([]);
+});
+
+test('when required argument missing then prompts for value', async () => {
+  const action = jest.fn();
+  const { program, prompts } = makeProgram(['one', 'two']);
+  program.argument('<first>').argument('<second>').action(action);
+  await program.parseAsync([], { from: 'user' });
+  expect(prompts.map((p) => p.prompt)).toEqual([
+    "Enter argument 'first': ",
+    "Enter argument 'second': ",
+  ]);
+  expect(action.mock.calls[0].slice(0, 2)).toEqual(['one', 'two']);
+});
+
+test('when some arguments supplied then prompts for rest', async () => {
+  const action = jest.fn();
+  const { program, prompts } = makeProgram(['two']);
+  program.argument('<first>').argument('<second>').action(action);
+  await program.parseAsync(['one'], { from: 'user' });
+  expect(prompts).toHaveLength(1);
+  expect(action.mock.calls[0].slice(0, 2)).toEqual(['one', 'two']);
+});
+
+test('when option has choices then list displayed and number picks choice', async () => {
+  const { program, prompts, output } = makeProgram(['2']);
+  program.addOption(
+    new commander.Option('--color <name>')
+      .choices(['red', 'green'])
+      .makeOptionMandatory(),
+  );
+  await program.parseAsync([], { from: 'user' });
+  expect(output.join('')).toBe(
+    "Choose option '--color <name>':\n  1) red\n  2) green\n",
+  );
+  expect(prompts[0].prompt).toBe('Enter number or value: ');
+  expect(program.opts().color).toBe('green');
+});
+
+test('when argument has choices then value picks choice', async () => {
+  const action = jest.fn();
+  const { program } = makeProgram(['prod']);
+  program
+    .addArgument(new commander.Argument('<env>').choices(['dev', 'prod']))
+    .action(action);
+  await program.parseAsync([], { from: 'user' });
+  expect(action.mock.calls[0][0]).toBe('prod');
+});
+
+test('when invalid choice entered then usual error', async () => {
+  const { program } = makeProgram(['blue']);
+  program.addOption(
+    new commander.Option('--color <name>')
+      .choices(['red', 'green'])
+      .makeOptionMandatory(),
+  );
+  await expect(program.parseAsync([], { from: 'user' })).rejects.toThrow(
+    "error: option '--color <name>' argument 'blue' is invalid. Allowed choices are red, green.",
+  );
+});
+
+test('when sensitive option then input not echoed', async () => {
+  const { program, prompts } = makeProgram(['hunter2']);
+  program.addOption(
+    new commander.Option('--password <value>')
+      .sensitive()
+      .makeOptionMandatory(),
+  );
+  await program.parseAsync([], { from: 'user' });
+  expect(prompts[0].sensitive).toBe(true);
+  expect(program.opts().password).toBe('hunter2');
+});
+
+test('when empty answer then usual missing error', async () => {
+  const { program } = makeProgram(['']);
+  program.requiredOption('--name <value>');
+  await expect(program.parseAsync([], { from: 'user' })).rejects.toThrow(
+    expect.objectContaining({ code: 'commander.missingMandatoryOptionValue' }),
+  );
+});
+
+test('when not interactive then usual error without prompt', () => {
+  const { program, prompts } = makeProgram(['alice'], false);
+  program.requiredOption('--name <value>');
+  expect(() => program.parse([], { from: 'user' })).toThrow(
+    expect.objectContaining({ code: 'commander.missingMandatoryOptionValue' }),
+  );
+  expect(prompts).toEqual([]);
+});
+
+test('when not enabled then usual error without prompt', () => {
+  const { program, prompts } = makeProgram(['alice']);
+  program.promptForMissing(false).requiredOption('--name <value>');
+  expect(() => program.parse([], { from: 'user' })).toThrow(
+    expect.objectContaining({ code: 'commander.missingMandatoryOptionValue' }),
+  );
+  expect(prompts).toEqual([]);
+});
+
+test('when option value has parser then parser called on answer', async () => {
+  const { program } = makeProgram(['42']);
+  program.requiredOption('--count <n>', 'count', (value) => Number(value));
+  await program.parseAsync([], { from: 'user' });
+  expect(program.opts().count).toBe(42);
+});
+
+test('when subcommand then prompts for global and local options', async () => {
+  const action = jest.fn();
+  const { program, prompts } = makeProgram(['local', 'global']);
+  program.requiredOption('--global <value>');
+  program.command('sub').requiredOption('--local <value>').action(action);
+  await program.parseAsync(['sub'], { from: 'user' });
+  expect(prompts.map((p) => p.prompt)).toEqual([
+    "Enter option '--local <value>': ",
+    "Enter option '--global <value>': ",
+  ]);
+  expect(action.mock.calls[0][1].opts()).toEqual({ local: 'local' });
+  expect(program.opts()).toEqual({ global: 'global' });
+});
+
+test('when parse and value missing then throws parseAsync error without prompt', () => {
+  const { program, prompts } = makeProgram(['alice']);
+  program.requiredOption('--name <value>');
+  expect(() => program.parse([], { from: 'user' })).toThrow(
+    "Prompting for missing values for command 'program' is asynchronous, so call .parseAsync() rather than .parse()",
+  );
+  expect(prompts).toEqual([]);
+});
+
+test('when parse and nothing missing then parses synchronously', () => {
+  const { program, prompts } = makeProgram([]);
+  program.requiredOption('--name <value>');
+  program.parse(['--name', 'bob'], { from: 'user' });
+  expect(program.opts().name).toBe('bob');
+  expect(prompts).toEqual([]);
+});
+
+test('when help requested then no prompt', () => {
+  const { program, prompts } = makeProgram(['alice']);
+  program.requiredOption('--name <value>');
+  expect(() => program.parse(['--help'], { from: 'user' })).toThrow(
+    expect.objectContaining({ code: 'commander.helpDisplayed' }),
+  );
+  expect(prompts).toEqual([]);
+});
+
+test('when parseResult then no prompt', () => {
+  const { program, prompts } = makeProgram(['alice']);
+  program.requiredOption('--name <value>');
+  const result = program.parseResult([], { from: 'user' });
+  expect(result.errors[0].code).toBe('commander.missingMandatoryOptionValue');
+  expect(prompts).toEqual([]);
+});
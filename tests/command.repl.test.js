@@ -0,0 +1,157 @@
+const { PassThrough } = require('node:stream');
+const commander = require('../');
+
+function runRepl(program, lines, replOptions = {}) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let written = '';
+  output.on('data', (chunk) => {
+    written += chunk.toString();
+  });
+  const done = program.repl({ input, output, ...replOptions });
+  input.end(lines);
+  return done.then(() => written);
+}
+
+function makeProgram() {
+  const writeErr = jest.fn();
+  const program = new commander.Command('ops');
+  program.configureOutput({ writeErr, writeOut: () => {} });
+  return { program, writeErr };
+}
+
+test('when lines entered then subcommand actions called with quoted arguments', async () => {
+  const { program } = makeProgram();
+  const deploy = jest.fn();
+  program
+    .command('deploy <target>')
+    .option('-m, --message <text>')
+    .action(deploy);
+  await runRepl(program, 'deploy "web server" -m \'first try\'\ndeploy db\n');
+  expect(deploy).toHaveBeenCalledTimes(2);
+  expect(deploy.mock.calls[0][0]).toBe('web server');
+  expect(deploy.mock.calls[0][1]).toEqual({ message: 'first try' });
+  expect(deploy.mock.calls[1][0]).toBe('db');
+  expect(deploy.mock.calls[1][1]).toEqual({});
+});
+
+test('when error then displayed and repl continues', async () => {
+  const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => {});
+  const { program, writeErr } = makeProgram();
+  const status = jest.fn();
+  program.command('status').action(status);
+  await runRepl(program, 'bogus\nstatus\n');
+  expect(writeErr).toHaveBeenCalledWith(
+    expect.stringContaining("error: unknown command 'bogus'"),
+  );
+  expect(status).toHaveBeenCalled();
+  expect(exitSpy).not.toHaveBeenCalled();
+  exitSpy.mockRestore();
+});
+
+test('when unterminated quote then error displayed', async () => {
+  const { program, writeErr } = makeProgram();
+  program.command('status');
+  await runRepl(program, 'status "oops\n');
+  expect(writeErr).toHaveBeenCalledWith(
+    expect.stringContaining('error: unterminated " quote'),
+  );
+});
+
+test('when action throws then message displayed and repl continues', async () => {
+  const { program, writeErr } = makeProgram();
+  const status = jest.fn();
+  program.command('fail').action(() => {
+    throw new Error('failed badly');
+  });
+  program.command('status').action(status);
+  await runRepl(program, 'fail\nstatus\n');
+  expect(writeErr).toHaveBeenCalledWith('failed badly\n');
+  expect(status).toHaveBeenCalled();
+});
+
+test('when async action then waits before next line', async () => {
+  const { program } = makeProgram();
+  const calls = [];
+  program.command('slow').action(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    calls.push('slow');
+  });
+  program.command('fast').action(() => {
+    calls.push('fast');
+  });
+  await runRepl(program, 'slow\nfast\n');
+  expect(calls).toEqual(['slow', 'fast']);
+});
+
+test('when blank line then ignored', async () => {
+  const { program, writeErr } = makeProgram();
+  program.command('status');
+  await runRepl(program, '\n   \n');
+  expect(writeErr).not.toHaveBeenCalled();
+});
+
+test('when options parsed then not kept for next line', async () => {
+  const { program } = makeProgram();
+  const opts = [];
+  program
+    .command('run')
+    .option('--dry-run')
+    .action((options) => {
+      opts.push(options);
+    });
+  await runRepl(program, 'run --dry-run\nrun\n');
+  expect(opts).toEqual([{ dryRun: true }, {}]);
+});
+
+test('when repl then prompt written', async () => {
+  const { program } = makeProgram();
+  const written = await runRepl(program, '', { prompt: 'ops> ' });
+  expect(written).toBe('ops> ');
+});
+
+test('when repl without prompt then prompt uses command name', async () => {
+  const { program } = makeProgram();
+  const written = await runRepl(program, '');
+  expect(written).toBe('ops> ');
+});
+
+test('when tab in terminal then completes subcommand', async () => {
+  const { program } = makeProgram();
+  const deploy = jest.fn();
+  program.command('deploy').action(deploy);
+  program.command('status');
+  const input = new PassThrough();
+  const output = new PassThrough();
+  output.resume();
+  const done = program.repl({ input, output, terminal: true });
+  input.write('dep\t');
+  // Completion candidates are resolved asynchronously.
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  input.end('\r');
+  await done;
+  expect(deploy).toHaveBeenCalled();
+});
+
+test('when exitOverride then repl still continues after error', async () => {
+  const { program, writeErr } = makeProgram();
+  program.exitOverride();
+  const status = jest.fn();
+  program.command('status').action(status);
+  await runRepl(program, 'bogus\nstatus\n');
+  expect(writeErr).toHaveBeenCalled();
+  expect(status).toHaveBeenCalled();
+});
+
+test('when exitOverride callback then called in repl', async () => {
+  const { program } = makeProgram();
+  const exitCallback = jest.fn();
+  program.exitOverride(exitCallback);
+  const status = jest.fn();
+  program.command('status').action(status);
+  await runRepl(program, 'bogus\nstatus\n');
+  expect(exitCallback).toHaveBeenCalledWith(
+    expect.objectContaining({ code: 'commander.unknownCommand' }),
+  );
+  expect(status).toHaveBeenCalled();
+});
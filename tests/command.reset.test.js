@@ -0,0 +1,155 @@
+const commander = require('../');
+
+describe('parse called more than once', () => {
+  test('when parse twice then option values from first parse cleared', () => {
+    const program = new commander.Command();
+    program.option('-d, --debug').option('-p, --port <number>', 'port', '80');
+    program.parse(['-d', '--port', '8080'], { from: 'user' });
+    program.parse([], { from: 'user' });
+    expect(program.opts()).toEqual({ port: '80' });
+    expect(program.getOptionValueSource('port')).toBe('default');
+    expect(program.getOptionValueSource('debug')).toBeUndefined();
+  });
+
+  test('when parse twice then negated option default restored', () => {
+    const program = new commander.Command();
+    program.option('--no-color');
+    program.parse(['--no-color'], { from: 'user' });
+    program.parse([], { from: 'user' });
+    expect(program.opts().color).toBe(true);
+  });
+
+  test('when parse twice then args and processedArgs from second parse', () => {
+    const program = new commander.Command();
+    program.argument('[file]').argument('[other]');
+    program.parse(['a', 'b'], { from: 'user' });
+    program.parse(['c'], { from: 'user' });
+    expect(program.args).toEqual(['c']);
+    expect(program.processedArgs).toEqual(['c', undefined]);
+  });
+
+  test('when variadic option parsed twice then values not accumulated', () => {
+    const program = new commander.Command();
+    program.option('--tag <value...>');
+    program.parse(['--tag', 'a'], { from: 'user' });
+    program.parse(['--tag', 'b'], { from: 'user' });
+    expect(program.opts().tag).toEqual(['b']);
+  });
+
+  test('when subcommand parsed twice then subcommand options cleared', () => {
+    const action = jest.fn();
+    const program = new commander.Command();
+    program.command('sub').option('--flag').action(action);
+    program.parse(['sub', '--flag'], { from: 'user' });
+    program.parse(['sub'], { from: 'user' });
+    expect(action.mock.calls[1][0]).toEqual({});
+  });
+
+  test('when different subcommand parsed then previous subcommand options cleared', () => {
+    const program = new commander.Command();
+    const first = program
+      .command('first')
+      .option('--flag')
+      .action(() => {});
+    program.command('second').action(() => {});
+    program.parse(['first', '--flag'], { from: 'user' });
+    program.parse(['second'], { from: 'user' });
+    expect(first.opts()).toEqual({});
+  });
+
+  test('when nested subcommand not dispatched then options cleared', () => {
+    const program = new commander.Command();
+    const sub = program.command('sub');
+    const nested = sub
+      .command('nested')
+      .option('--flag')
+      .action(() => {});
+    sub.command('other').action(() => {});
+    program.parse(['sub', 'nested', '--flag'], { from: 'user' });
+    program.parse(['sub', 'other'], { from: 'user' });
+    expect(nested.opts()).toEqual({});
+  });
+
+  test('when program name deduced from script then deduced again', () => {
+    const program = new commander.Command();
+    program.parse(['node', 'first.js']);
+    expect(program.name()).toBe('first');
+    program.parse(['node', 'second.js']);
+    expect(program.name()).toBe('second');
+  });
+
+  test('when storeOptionsAsProperties and parse twice then properties restored', () => {
+    const program = new commander.Command();
+    program.storeOptionsAsProperties().option('--flag').option('--level <n>');
+    program.setOptionValue('level', '1');
+    program.parse(['--flag', '--level', '3'], { from: 'user' });
+    program.parse([], { from: 'user' });
+    expect(program.flag).toBeUndefined();
+    expect(program.level).toBe('1');
+  });
+
+  test('when option added between parses then default restored', () => {
+    const program = new commander.Command();
+    program.option('--a <value>');
+    program.parse(['--a', 'x'], { from: 'user' });
+    program.option('--b <value>', 'b', 'B');
+    program.parse(['--b', 'y'], { from: 'user' });
+    program.parse([], { from: 'user' });
+    expect(program.opts()).toEqual({ b: 'B' });
+    expect(program.getOptionValueSource('b')).toBe('default');
+  });
+
+  test('when storeOptionsAsProperties and option added between parses then property restored', () => {
+    const program = new commander.Command();
+    program.storeOptionsAsProperties().option('--a');
+    program.parse([], { from: 'user' });
+    program.option('--b <value>');
+    program.parse(['--b', 'y'], { from: 'user' });
+    program.parse([], { from: 'user' });
+    expect(program.b).toBeUndefined();
+  });
+
+  test('when parseResult twice then results independent', () => {
+    const program = new commander.Command();
+    program.option('--flag');
+    const first = program.parseResult(['--flag'], { from: 'user' });
+    const second = program.parseResult([], { from: 'user' });
+    expect(first.opts).toEqual({ flag: true });
+    expect(second.opts).toEqual({});
+  });
+});
+
+describe('reset', () => {
+  test('when reset then option values and arguments restored for program and subcommands', () => {
+    const program = new commander.Command();
+    program.option('--global <value>', 'global', 'default');
+    const sub = program.command('sub').argument('<name>').option('--local');
+    program.parse(['--global', 'x', 'sub', '--local', 'n'], { from: 'user' });
+    program.reset();
+    expect(program.opts()).toEqual({ global: 'default' });
+    expect(program.args).toEqual([]);
+    expect(sub.opts()).toEqual({});
+    expect(sub.args).toEqual([]);
+    expect(sub.processedArgs).toEqual([]);
+  });
+
+  test('when option added after parse then reset restores default', () => {
+    const program = new commander.Command();
+    program.parse([], { from: 'user' });
+    program.option('--b <value>', 'b', 'B');
+    program.reset();
+    expect(program.opts()).toEqual({ b: 'B' });
+  });
+
+  test('when reset before parse then no change', () => {
+    const program = new commander.Command();
+    program.option('--flag', 'flag', true);
+    program.reset();
+    expect(program.opts()).toEqual({ flag: true });
+  });
+
+  test('when reset then returns this', () => {
+    const program = new commander.Command();
+    expect(program.reset()).toBe(program);
+  });
+});
@@ -0,0 +1,210 @@
+const commander = require('../');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+
+let tmpDir;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'commander-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true });
+});
+
+function writeFile(name, content) {
+  const file = path.join(tmpDir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+function makeProgram() {
+  const program = new commander.Command('app');
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .option('--name <value>')
+    .option('--flag')
+    .argument('[files...]');
+  return program;
+}
+
+describe('responseFiles', () => {
+  test('when response files not enabled then argument not expanded', () => {
+    const file = writeFile('args.txt', '--flag');
+    const program = makeProgram();
+    program.parse([`@${file}`], { from: 'user' });
+    expect(program.args).toEqual([`@${file}`]);
+  });
+
+  test('when response file argument then expanded into arguments', () => {
+    const file = writeFile('args.txt', '--name "John Smith"\n--flag\none.txt');
+    const program = makeProgram();
+    program.responseFiles();
+    program.parse(['first.txt', `@${file}`, 'last.txt'], { from: 'user' });
+    expect(program.opts()).toEqual({ name: 'John Smith', flag: true });
+    expect(program.args).toEqual(['first.txt', 'one.txt', 'last.txt']);
+  });
+
+  test('when custom prefix then expanded', () => {
+    const file = writeFile('args.txt', '--flag');
+    const program = makeProgram();
+    program.responseFiles('+');
+    program.parse([`+${file}`, `@${file}`], { from: 'user' });
+    expect(program.opts().flag).toBe(true);
+    expect(program.args).toEqual([`@${file}`]);
+  });
+
+  test('when response file includes response file then expanded relative to file', () => {
+    fs.mkdirSync(path.join(tmpDir, 'nested'));
+    writeFile(path.join('nested', 'inner.txt'), '--flag');
+    const file = writeFile('outer.txt', '--name x @nested/inner.txt');
+    const program = makeProgram();
+    program.responseFiles();
+    program.parse([`@${file}`], { from: 'user' });
+    expect(program.opts()).toEqual({ name: 'x', flag: true });
+  });
+
+  test('when response file includes itself then error', () => {
+    const file = path.join(tmpDir, 'loop.txt');
+    fs.writeFileSync(file, '--flag @loop.txt');
+    const program = makeProgram();
+    program.responseFiles();
+    expect(() => {
+      program.parse([`@${file}`], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.invalidResponseFile',
+        message: `error: response file '${file}' includes itself`,
+      }),
+    );
+  });
+
+  test('when same response file used twice then not a cycle', () => {
+    const file = writeFile('args.txt', 'a.txt');
+    const program = makeProgram();
+    program.responseFiles();
+    program.parse([`@${file}`, `@${file}`], { from: 'user' });
+    expect(program.args).toEqual(['a.txt', 'a.txt']);
+  });
+
+  test('when response file missing then error', () => {
+    const file = path.join(tmpDir, 'missing.txt');
+    const program = makeProgram();
+    program.responseFiles();
+    expect(() => {
+      program.parse([`@${file}`], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.invalidResponseFile',
+        message: expect.stringContaining(
+          `error: cannot read response file '${file}'.`,
+        ),
+      }),
+    );
+  });
+
+  test('when response file has unterminated quote then error', () => {
+    const file = writeFile('args.txt', "--name 'John");
+    const program = makeProgram();
+    program.responseFiles();
+    expect(() => {
+      program.parse([`@${file}`], { from: 'user' });
+    }).toThrow(`error: response file '${file}' is invalid. unterminated '`);
+  });
+
+  test('when doubled prefix then literal argument', () => {
+    const program = makeProgram();
+    program.responseFiles();
+    program.parse(['@@user', '@'], { from: 'user' });
+    expect(program.args).toEqual(['@user', '@']);
+  });
+
+  test('when argument after -- then not expanded', () => {
+    const program = makeProgram();
+    program.responseFiles();
+    program.parse(['--', '@missing.txt'], { from: 'user' });
+    expect(program.args).toEqual(['@missing.txt']);
+  });
+
+  test('when response file has subcommand then subcommand called', () => {
+    const file = writeFile('args.txt', 'sub --verbose');
+    const action = jest.fn();
+    const program = new commander.Command();
+    program.responseFiles();
+    program.command('sub').option('--verbose').action(action);
+    program.parse([`@${file}`], { from: 'user' });
+    expect(action).toHaveBeenCalledWith(
+      { verbose: true },
+      expect.any(commander.Command),
+    );
+  });
+
+  test('when responseFiles(false) then argument not expanded', () => {
+    const program = makeProgram();
+    program.responseFiles().responseFiles(false);
+    program.parse(['@missing.txt'], { from: 'user' });
+    expect(program.args).toEqual(['@missing.txt']);
+  });
+});
+
+describe('Option.fileValue()', () => {
+  test('when option-argument has prefix then value read from file', () => {
+    const file = writeFile('body.json', '{"a":1}\n');
+    const program = makeProgram();
+    program.addOption(new commander.Option('-d, --data <text>').fileValue());
+    program.parse(['--data', `@${file}`], { from: 'user' });
+    expect(program.opts().data).toBe('{"a":1}');
+  });
+
+  test('when option-argument does not have prefix then value used', () => {
+    const program = makeProgram();
+    program.addOption(new commander.Option('-d, --data <text>').fileValue());
+    program.parse(['-d', 'plain'], { from: 'user' });
+    expect(program.opts().data).toBe('plain');
+  });
+
+  test('when option does not use fileValue then value used', () => {
+    const program = makeProgram();
+    program.parse(['--name', '@john'], { from: 'user' });
+    expect(program.opts().name).toBe('@john');
+  });
+
+  test('when file value has custom processing then applied to file contents', () => {
+    const file = writeFile('count.txt', '42\n');
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--count <number>').int().fileValue(),
+    );
+    program.parse([`--count=@${file}`], { from: 'user' });
+    expect(program.opts().count).toBe(42);
+  });
+
+  test('when file missing then error', () => {
+    const file = path.join(tmpDir, 'missing.txt');
+    const program = makeProgram();
+    program.addOption(new commander.Option('-d, --data <text>').fileValue());
+    expect(() => {
+      program.parse(['--data', `@${file}`], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.invalidArgument',
+        message: expect.stringContaining(
+          `error: option '-d, --data <text>' argument '@${file}' is invalid. Cannot read file.`,
+        ),
+      }),
+    );
+  });
+
+  test('when value from env has prefix then value used', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('-d, --data <text>').fileValue().env('TEST_DATA'),
+    );
+    process.env.TEST_DATA = '@file.txt';
+    program.parse([], { from: 'user' });
+    expect(program.opts().data).toBe('@file.txt');
+    delete process.env.TEST_DATA;
+  });
+});
@@ -0,0 +1,297 @@
+const commander = require('../');
+
+// Minimal Standard Schema validators, like those from Zod, Valibot, and ArkType.
+function makeSchema(validate) {
+  return { '~standard': { version: 1, vendor: 'test', validate } };
+}
+
+const positiveNumber = makeSchema((value) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    return { issues: [{ message: 'Expected a positive integer' }] };
+  }
+  return { value: number };
+});
+
+const rangeSchema = makeSchema((opts) => {
+  if (opts.min !== undefined && opts.max !== undefined && opts.min > opts.max) {
+    return {
+      issues: [{ message: 'Must not exceed max', path: ['min'] }],
+    };
+  }
+  return { value: opts };
+});
+
+function makeProgram() {
+  const program = new commander.Command();
+  program.exitOverride().configureOutput({ writeErr: () => {} });
+  return program;
+}
+
+describe('Option.schema()', () => {
+  test('when option value valid then value is schema output', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('-p, --port <number>').schema(positiveNumber),
+    );
+    program.parse(['--port', '80'], { from: 'user' });
+    expect(program.opts().port).toBe(80);
+  });
+
+  test('when option value invalid then error includes issue', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('-p, --port <number>').schema(positiveNumber),
+    );
+    expect(() => {
+      program.parse(['--port', '-1'], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.invalidArgument',
+        message:
+          "error: option '-p, --port <number>' argument '-1' is invalid. Expected a positive integer",
+      }),
+    );
+  });
+
+  test('when option has custom processing then schema validates parsed value', () => {
+    const validate = jest.fn((value) => ({ value }));
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--size <number>')
+        .argParser(parseFloat)
+        .schema(makeSchema(validate)),
+    );
+    program.parse(['--size', '1.5'], { from: 'user' });
+    expect(validate).toHaveBeenCalledWith(1.5);
+  });
+
+  test('when option value from env invalid then error mentions env', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('-p, --port <number>')
+        .env('TEST_PORT')
+        .schema(positiveNumber),
+    );
+    process.env.TEST_PORT = 'abc';
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow("value 'abc' from env 'TEST_PORT' is invalid.");
+    delete process.env.TEST_PORT;
+  });
+
+  test('when option not specified then schema not called', () => {
+    const validate = jest.fn((value) => ({ value }));
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--name <value>')
+        .default('x')
+        .schema(makeSchema(validate)),
+    );
+    program.parse([], { from: 'user' });
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  test('when issues have paths then paths included in message', () => {
+    const schema = makeSchema(() => ({
+      issues: [
+        { message: 'Too short', path: [0] },
+        { message: 'Too long', path: [{ key: 1 }] },
+      ],
+    }));
+    const program = makeProgram();
+    program.addOption(new commander.Option('--tags <tag...>').schema(schema));
+    expect(() => {
+      program.parse(['--tags', 'a'], { from: 'user' });
+    }).toThrow('is invalid. 0: Too short; 1: Too long');
+  });
+
+  test('when variadic option repeated then schema validates collected values once', () => {
+    const validate = jest.fn((value) => ({ value }));
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--tags <tag...>').schema(makeSchema(validate)),
+    );
+    program.parse(['--tags', 'a', '--tags', 'b'], { from: 'user' });
+    expect(validate).toHaveBeenCalledTimes(1);
+    expect(validate).toHaveBeenCalledWith(['a', 'b']);
+    expect(program.opts().tags).toEqual(['a', 'b']);
+  });
+
+  test('when validation asynchronous then throws', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--name <value>').schema(
+        makeSchema(async (value) => ({ value })),
+      ),
+    );
+    expect(() => {
+      program.parse(['--name', 'x'], { from: 'user' });
+    }).toThrow('schema validation must be synchronous');
+  });
+});
+
+describe('Argument.schema()', () => {
+  test('when argument valid then action receives schema output', () => {
+    let value;
+    const program = makeProgram();
+    program
+      .addArgument(new commander.Argument('<count>').schema(positiveNumber))
+      .action((count) => {
+        value = count;
+      });
+    program.parse(['3'], { from: 'user' });
+    expect(value).toBe(3);
+  });
+
+  test('when argument invalid then error includes issue', () => {
+    const program = makeProgram();
+    program
+      .addArgument(new commander.Argument('<count>').schema(positiveNumber))
+      .action(() => {});
+    expect(() => {
+      program.parse(['none'], { from: 'user' });
+    }).toThrow(
+      "error: command-argument value 'none' is invalid for argument 'count'. Expected a positive integer",
+    );
+  });
+
+  test('when variadic argument then schema validates array', () => {
+    const validate = jest.fn((value) => ({ value }));
+    const program = makeProgram();
+    program
+      .addArgument(
+        new commander.Argument('<files...>').schema(makeSchema(validate)),
+      )
+      .action(() => {});
+    program.parse(['a', 'b'], { from: 'user' });
+    expect(validate).toHaveBeenCalledWith(['a', 'b']);
+  });
+
+  test('when optional argument not specified then schema not called', () => {
+    const validate = jest.fn((value) => ({ value }));
+    const program = makeProgram();
+    program
+      .addArgument(
+        new commander.Argument('[name]').schema(makeSchema(validate)),
+      )
+      .action(() => {});
+    program.parse([], { from: 'user' });
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  test('when custom processing fails while aggregating then schema not called', () => {
+    const validate = jest.fn((value) => ({ value }));
+    const program = makeProgram();
+    program
+      .aggregateErrors()
+      .addArgument(
+        new commander.Argument('<count>').int().schema(makeSchema(validate)),
+      )
+      .action(() => {});
+    expect(() => {
+      program.parse(['many'], { from: 'user' });
+    }).toThrow(expect.objectContaining({ code: 'commander.invalidArgument' }));
+    expect(validate).not.toHaveBeenCalled();
+  });
+});
+
+describe('Command.optsSchema()', () => {
+  test('when options valid then action called', () => {
+    const action = jest.fn();
+    const program = makeProgram();
+    program
+      .option('--min <n>', 'minimum', parseFloat)
+      .option('--max <n>', 'maximum', parseFloat)
+      .optsSchema(rangeSchema)
+      .action(action);
+    program.parse(['--min', '1', '--max', '2'], { from: 'user' });
+    expect(action).toHaveBeenCalled();
+  });
+
+  test('when issue path is option then error mentions option', () => {
+    const program = makeProgram();
+    program
+      .option('--min <n>', 'minimum', parseFloat)
+      .option('--max <n>', 'maximum', parseFloat)
+      .optsSchema(rangeSchema)
+      .action(() => {});
+    expect(() => {
+      program.parse(['--min', '3', '--max', '2'], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.invalidOptionValues',
+        message:
+          "error: option '--min <n>' value is invalid. Must not exceed max",
+      }),
+    );
+  });
+
+  test('when issue has no path then error is about option values', () => {
+    const program = makeProgram();
+    program
+      .option('--a')
+      .option('--b')
+      .optsSchema(
+        makeSchema((opts) =>
+          opts.a && opts.b
+            ? { issues: [{ message: 'Use --a or --b, not both' }] }
+            : { value: opts },
+        ),
+      );
+    expect(() => {
+      program.parse(['--a', '--b'], { from: 'user' });
+    }).toThrow('error: option values are invalid. Use --a or --b, not both');
+  });
+
+  test('when several issues and aggregating errors then all reported', () => {
+    const program = makeProgram();
+    program
+      .aggregateErrors()
+      .option('--a <value>')
+      .option('--b <value>')
+      .optsSchema(
+        makeSchema(() => ({
+          issues: [
+            { message: 'Bad a', path: ['a'] },
+            { message: 'Bad b', path: ['b'] },
+          ],
+        })),
+      );
+    let caughtErr;
+    try {
+      program.parse(['--a', '1', '--b', '2'], { from: 'user' });
+    } catch (err) {
+      caughtErr = err;
+    }
+    expect(caughtErr.code).toBe('commander.multipleErrors');
+    expect(caughtErr.errors.map((err) => err.message)).toEqual([
+      "error: option '--a <value>' value is invalid. Bad a",
+      "error: option '--b <value>' value is invalid. Bad b",
+    ]);
+  });
+
+  test('when schema has output then option values updated', () => {
+    const program = makeProgram();
+    program.option('--name <value>').optsSchema(
+      makeSchema((opts) => ({
+        value: { ...opts, name: opts.name.toUpperCase() },
+      })),
+    );
+    program.parse(['--name', 'john'], { from: 'user' });
+    expect(program.opts().name).toBe('JOHN');
+    expect(program.getOptionValueSource('name')).toBe('cli');
+  });
+
+  test('when subcommand has schema then validates subcommand options', () => {
+    const validate = jest.fn((value) => ({ value }));
+    const program = makeProgram();
+    program
+      .command('sub')
+      .option('--flag')
+      .optsSchema(makeSchema(validate))
+      .action(() => {});
+    program.parse(['sub', '--flag'], { from: 'user' });
+    expect(validate).toHaveBeenCalledWith({ flag: true });
+  });
+});
@@ -7,9 +7,18 @@ import {
   InvalidArgumentError,
   InvalidOptionArgumentError,
   Help,
+  ManFormatter,
+  MarkdownFormatter,
   createCommand,
   createArgument,
   createOption,
+  intParser,
+  floatParser,
+  booleanParser,
+  durationParser,
+  bytesParser,
+  urlParser,
+  dateParser,
 } from '../esm.mjs';
 
 // Do some simple checks that expected imports are available at runtime.
@@ -39,6 +48,8 @@ checkClass(new CommanderError(1, 'code', 'failed'), 'CommanderError');
 checkClass(new InvalidArgumentError('failed'), 'InvalidArgumentError');
 checkClass(new InvalidOptionArgumentError('failed'), 'InvalidArgumentError');
 checkClass(new Help(), 'Help');
+checkClass(new ManFormatter(), 'ManFormatter');
+checkClass(new MarkdownFormatter(), 'MarkdownFormatter');
 checkClass(new Argument('<file>'), 'Argument');
 
 console.log('Checking createCommand');
@@ -48,4 +59,17 @@ check(typeof createArgument === 'function', 'createArgument is function');
 console.log('Checking createOption');
 check(typeof createOption === 'function', 'createOption is function');
 
+for (const [name, fn] of Object.entries({
+  intParser,
+  floatParser,
+  booleanParser,
+  durationParser,
+  bytesParser,
+  urlParser,
+  dateParser,
+})) {
+  console.log(`Checking ${name}`);
+  check(typeof fn === 'function', `${name} is function`);
+}
+
 console.log('No problems');
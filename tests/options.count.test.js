@@ -0,0 +1,165 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const commander = require('../');
+
+function makeProgram() {
+  const program = new commander.Command('app');
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .addOption(new commander.Option('-v, --verbose').count());
+  return program;
+}
+
+test('when counting option not specified then value is undefined', () => {
+  const program = makeProgram();
+  program.parse([], { from: 'user' });
+  expect(program.opts().verbose).toBeUndefined();
+});
+
+test('when counting option specified once then value is 1', () => {
+  const program = makeProgram();
+  program.parse(['--verbose'], { from: 'user' });
+  expect(program.opts().verbose).toBe(1);
+});
+
+test('when counting option repeated then value is count', () => {
+  const program = makeProgram();
+  program.parse(['-v', '--verbose', '-v'], { from: 'user' });
+  expect(program.opts().verbose).toBe(3);
+});
+
+test('when combined short flags then each occurrence counted', () => {
+  const program = makeProgram();
+  program.option('-x');
+  program.parse(['-vvx', '-v'], { from: 'user' });
+  expect(program.opts()).toEqual({ verbose: 3, x: true });
+});
+
+test('when counting option has default and not specified then value is default', () => {
+  const program = new commander.Command();
+  program.addOption(new commander.Option('-v, --verbose').count().default(0));
+  program.parse([], { from: 'user' });
+  expect(program.opts().verbose).toBe(0);
+});
+
+test('when counting option has default then counts from default', () => {
+  const program = new commander.Command();
+  program.addOption(new commander.Option('-v, --verbose').count().default(0));
+  program.parse(['-vv'], { from: 'user' });
+  expect(program.opts().verbose).toBe(2);
+});
+
+test('when negated option used then count reset to 0', () => {
+  const program = makeProgram();
+  program.option('--no-verbose');
+  program.parse(['-vv', '--no-verbose'], { from: 'user' });
+  expect(program.opts().verbose).toBe(0);
+});
+
+test('when counting option used after negated option then counts from 0', () => {
+  const program = makeProgram();
+  program.option('--no-verbose');
+  program.parse(['--no-verbose', '-v'], { from: 'user' });
+  expect(program.opts().verbose).toBe(1);
+});
+
+test('when negated option for other option then value is false', () => {
+  const program = makeProgram();
+  program.option('--color').option('--no-color');
+  program.parse(['--no-color'], { from: 'user' });
+  expect(program.opts().color).toBe(false);
+});
+
+test('when counting option from env then value is 1', () => {
+  const program = new commander.Command();
+  program.addOption(
+    new commander.Option('-v, --verbose').count().env('TEST_VERBOSE'),
+  );
+  process.env.TEST_VERBOSE = '1';
+  program.parse([], { from: 'user' });
+  expect(program.opts().verbose).toBe(1);
+  delete process.env.TEST_VERBOSE;
+});
+
+describe('counting option from env', () => {
+  afterEach(() => {
+    delete process.env.TEST_VERBOSE;
+  });
+
+  function makeEnvProgram() {
+    const program = makeProgram();
+    program.options[0].env('TEST_VERBOSE');
+    return program;
+  }
+
+  test('when env has count then value is count', () => {
+    const program = makeEnvProgram();
+    process.env.TEST_VERBOSE = '3';
+    program.parse([], { from: 'user' });
+    expect(program.opts().verbose).toBe(3);
+  });
+
+  test('when env empty then value is 1', () => {
+    const program = makeEnvProgram();
+    process.env.TEST_VERBOSE = '';
+    program.parse([], { from: 'user' });
+    expect(program.opts().verbose).toBe(1);
+  });
+
+  test('when env not a count then error', () => {
+    const program = makeEnvProgram();
+    process.env.TEST_VERBOSE = 'lots';
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      "error: option '-v, --verbose' value 'lots' from env 'TEST_VERBOSE' is invalid.",
+    );
+  });
+});
+
+describe('counting option from config', () => {
+  let tempDir;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'commander-count-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(name, content) {
+    const file = path.join(tempDir, name);
+    fs.writeFileSync(file, JSON.stringify(content));
+    return file;
+  }
+
+  test('when config has count then value is number', () => {
+    const program = makeProgram();
+    program.configFile(writeConfig('string.json', { verbose: '2' }));
+    program.parse([], { from: 'user' });
+    expect(program.opts().verbose).toBe(2);
+  });
+
+  test('when config has count and option used then counts from cli only', () => {
+    const program = makeProgram();
+    program.configFile(writeConfig('cli.json', { verbose: 2 }));
+    program.parse(['-v'], { from: 'user' });
+    expect(program.opts().verbose).toBe(1);
+  });
+
+  test('when config has negative count then error', () => {
+    const program = makeProgram();
+    program.configFile(writeConfig('negative.json', { verbose: -1 }));
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow("error: option '-v, --verbose' value '-1' from config");
+  });
+});
+
+test('when count() then option is counting', () => {
+  expect(new commander.Option('-v').count().counting).toBe(true);
+  expect(new commander.Option('-v').counting).toBe(false);
+});
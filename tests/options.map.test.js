@@ -0,0 +1,259 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const commander = require('../');
+
+function makeProgram() {
+  const program = new commander.Command('app');
+  program.exitOverride().configureOutput({ writeErr: () => {} });
+  return program;
+}
+
+describe('map option declared in flags', () => {
+  test('when option not specified then value is undefined', () => {
+    const program = makeProgram();
+    program.option('--label <key=value...>');
+    program.parse([], { from: 'user' });
+    expect(program.opts().label).toBeUndefined();
+  });
+
+  test('when option repeated then pairs collected', () => {
+    const program = makeProgram();
+    program.option('--label <key=value...>');
+    program.parse(['--label', 'a=1', '--label', 'b=2'], { from: 'user' });
+    expect(program.opts().label).toEqual({ a: '1', b: '2' });
+  });
+
+  test('when pairs separated by commas then pairs collected', () => {
+    const program = makeProgram();
+    program.option('--label <key=value...>');
+    program.parse(['--label', 'a=1,b=2'], { from: 'user' });
+    expect(program.opts().label).toEqual({ a: '1', b: '2' });
+  });
+
+  test('when value contains equals then split at first equals', () => {
+    const program = makeProgram();
+    program.option('--env <key=value>');
+    program.parse(['--env', 'QUERY=a=b', '--env', 'EMPTY='], { from: 'user' });
+    expect(program.opts().env).toEqual({ QUERY: 'a=b', EMPTY: '' });
+  });
+
+  test('when option followed by argument then argument not consumed', () => {
+    const program = makeProgram();
+    program.option('--label <key=value...>').argument('[file]');
+    program.parse(['--label', 'a=1', 'file.txt'], { from: 'user' });
+    expect(program.opts().label).toEqual({ a: '1' });
+    expect(program.args).toEqual(['file.txt']);
+  });
+
+  test('when not a pair then error', () => {
+    const program = makeProgram();
+    program.option('--label <key=value...>');
+    expect(() => {
+      program.parse(['--label', 'a'], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.invalidArgument',
+        message:
+          "error: option '--label <key=value...>' argument 'a' is invalid. Not a key=value pair. Expected key=value, or k1=v1,k2=v2.",
+      }),
+    );
+  });
+
+  test('when key is empty then error', () => {
+    const program = makeProgram();
+    program.option('--label <key=value...>');
+    expect(() => {
+      program.parse(['--label', '=1'], { from: 'user' });
+    }).toThrow('Not a key=value pair.');
+  });
+
+  test('when option has default then default replaced', () => {
+    const program = makeProgram();
+    program.option('--label <key=value...>', 'labels', { a: '0' });
+    program.parse(['--label', 'b=1'], { from: 'user' });
+    expect(program.opts().label).toEqual({ b: '1' });
+  });
+
+  test('when option from env then pairs collected', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--label <key=value...>').env('TEST_LABELS'),
+    );
+    process.env.TEST_LABELS = 'a=1,b=2';
+    program.parse([], { from: 'user' });
+    expect(program.opts().label).toEqual({ a: '1', b: '2' });
+    delete process.env.TEST_LABELS;
+  });
+
+  test('when declared in flags then isMap', () => {
+    expect(new commander.Option('--label <key=value...>').isMap()).toBe(true);
+    expect(new commander.Option('--label [k=v]').isMap()).toBe(true);
+    expect(new commander.Option('--label <label>').isMap()).toBe(false);
+    expect(new commander.Option('--label <value,...>').isMap()).toBe(false);
+  });
+});
+
+describe('Option.map()', () => {
+  test('when map() then pairs collected', () => {
+    const program = makeProgram();
+    program.addOption(new commander.Option('-l, --label <label>').map());
+    program.parse(['-l', 'a=1', '-l', 'b=2'], { from: 'user' });
+    expect(program.opts().label).toEqual({ a: '1', b: '2' });
+  });
+
+  test('when duplicate key with default policy then last value wins', () => {
+    const program = makeProgram();
+    program.addOption(new commander.Option('--label <label>').map());
+    program.parse(['--label', 'a=1,b=2', '--label', 'a=3'], { from: 'user' });
+    expect(program.opts().label).toEqual({ a: '3', b: '2' });
+  });
+
+  test('when duplicate key with error policy then error', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--label <label>').map({ duplicates: 'error' }),
+    );
+    expect(() => {
+      program.parse(['--label', 'a=1', '--label', 'a=2'], { from: 'user' });
+    }).toThrow(
+      "error: option '--label <label>' argument 'a=2' is invalid. Duplicate key 'a'.",
+    );
+  });
+
+  test('when duplicate key with collect policy then values collected', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--label <label>').map({ duplicates: 'collect' }),
+    );
+    program.parse(['--label', 'a=1,b=2', '--label', 'a=3'], { from: 'user' });
+    expect(program.opts().label).toEqual({ a: ['1', '3'], b: ['2'] });
+  });
+
+  test('when map() on variadic flags then not variadic', () => {
+    const option = new commander.Option('--label <labels...>').map();
+    expect(option.variadic).toBe(false);
+  });
+});
+
+describe('help', () => {
+  test('when declared in flags then optionTerm is flags', () => {
+    const helper = new commander.Help();
+    expect(
+      helper.optionTerm(new commander.Option('--label <key=value...>')),
+    ).toBe('--label <key=value...>');
+  });
+
+  test('when key=value without ellipsis then optionTerm adds ellipsis', () => {
+    const helper = new commander.Help();
+    expect(helper.optionTerm(new commander.Option('--env <name=value>'))).toBe(
+      '--env <name=value...>',
+    );
+  });
+
+  test('when map() then optionTerm shows key=value', () => {
+    const helper = new commander.Help();
+    expect(
+      helper.optionTerm(new commander.Option('-l, --label <label>').map()),
+    ).toBe('-l, --label <key=value...>');
+    expect(
+      helper.optionTerm(new commander.Option('--label [labels...]').map()),
+    ).toBe('--label [key=value...]');
+  });
+
+  test('when map option then help lists key=value term', () => {
+    const program = new commander.Command('app');
+    program.addOption(
+      new commander.Option('--label <label>', 'add label').map(),
+    );
+    expect(program.helpInformation()).toMatch(
+      / {2}--label <key=value\.\.\.> +add label\n/,
+    );
+  });
+});
+
+describe('special keys', () => {
+  test('when key is __proto__ then stored as key', () => {
+    const program = makeProgram();
+    program.option('--label <key=value...>');
+    program.parse(['--label', '__proto__=x', '--label', 'a=1'], {
+      from: 'user',
+    });
+    const label = program.opts().label;
+    expect(Object.keys(label)).toEqual(['__proto__', 'a']);
+    expect(label['__proto__']).toBe('x');
+  });
+
+  test('when key is __proto__ with collect policy then prototype unchanged', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--label <label>').map({ duplicates: 'collect' }),
+    );
+    program.parse(['--label', '__proto__=x,__proto__=y'], { from: 'user' });
+    const label = program.opts().label;
+    expect(Array.isArray(label)).toBe(false);
+    expect(label['__proto__']).toEqual(['x', 'y']);
+  });
+});
+
+describe('map option from config', () => {
+  let tempDir;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'commander-map-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(name, content) {
+    const file = path.join(tempDir, name);
+    fs.writeFileSync(file, JSON.stringify(content));
+    return file;
+  }
+
+  test('when config has object then pairs from object', () => {
+    const file = writeConfig('object.json', { label: { a: '1', b: 2 } });
+    const program = makeProgram();
+    program.option('--label <key=value...>').configFile(file);
+    program.parse([], { from: 'user' });
+    expect(program.opts().label).toEqual({ a: '1', b: '2' });
+  });
+
+  test('when config has object with array and collect policy then values collected', () => {
+    const file = writeConfig('collect.json', { label: { a: ['1', '2'] } });
+    const program = makeProgram();
+    program
+      .addOption(
+        new commander.Option('--label <label>').map({ duplicates: 'collect' }),
+      )
+      .configFile(file);
+    program.parse([], { from: 'user' });
+    expect(program.opts().label).toEqual({ a: ['1', '2'] });
+  });
+
+  test('when config has object with array and error policy then error', () => {
+    const file = writeConfig('error.json', { label: { a: ['1', '2'] } });
+    const program = makeProgram();
+    program
+      .addOption(
+        new commander.Option('--label <label>').map({ duplicates: 'error' }),
+      )
+      .configFile(file);
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow("Duplicate key 'a'.");
+  });
+
+  test('when config has object with nested object then error', () => {
+    const file = writeConfig('nested.json', { label: { a: { b: '1' } } });
+    const program = makeProgram();
+    program.option('--label <key=value...>').configFile(file);
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      `error: option '--label <key=value...>' value '{"a":{"b":"1"}}' from config '${file}' is invalid. Not a map value for key 'a'. Expected a string.`,
+    );
+  });
+});
@@ -0,0 +1,238 @@
+const commander = require('../');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+
+function makeProgram() {
+  const actionMock = jest.fn();
+  const program = new commander.Command('app');
+  program
+    .exitOverride()
+    .configureOutput({ writeErr: () => {} })
+    .action(actionMock);
+  return { program, actionMock };
+}
+
+describe('Option.requires()', () => {
+  test('when option used with required option then action called', () => {
+    const { program, actionMock } = makeProgram();
+    program
+      .addOption(new commander.Option('--key <file>').requires('cert'))
+      .option('--cert <file>');
+    program.parse(['--key', 'k', '--cert', 'c'], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when option not used then required option not checked', () => {
+    const { program, actionMock } = makeProgram();
+    program
+      .addOption(new commander.Option('--key <file>').requires('cert'))
+      .option('--cert <file>');
+    program.parse([], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when option used without required option then error', () => {
+    const { program } = makeProgram();
+    program
+      .addOption(new commander.Option('--key <file>').requires('cert'))
+      .option('--cert <file>');
+    expect(() => {
+      program.parse(['--key', 'k'], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.missingRequiredOption',
+        message: "error: option '--key <file>' requires option '--cert <file>'",
+      }),
+    );
+  });
+
+  test('when option has default then required option not checked', () => {
+    const { program, actionMock } = makeProgram();
+    program
+      .addOption(
+        new commander.Option('--key <file>')
+          .default('key.pem')
+          .requires('cert'),
+      )
+      .option('--cert <file>');
+    program.parse([], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when required option has default then satisfied', () => {
+    const { program, actionMock } = makeProgram();
+    program
+      .addOption(new commander.Option('--key <file>').requires('cert'))
+      .option('--cert <file>', 'certificate', 'cert.pem');
+    program.parse(['--key', 'k'], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when option from env without required option then error mentions env', () => {
+    const { program } = makeProgram();
+    program
+      .addOption(
+        new commander.Option('--key <file>').env('TEST_KEY').requires('cert'),
+      )
+      .option('--cert <file>');
+    process.env.TEST_KEY = 'k';
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      "error: environment variable 'TEST_KEY' requires option '--cert <file>'",
+    );
+    delete process.env.TEST_KEY;
+  });
+
+  test('when option from config without required option then error mentions config', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'commander-'));
+    const configFile = path.join(tmpDir, 'config.json');
+    fs.writeFileSync(configFile, JSON.stringify({ key: 'k' }));
+    const { program } = makeProgram();
+    program
+      .addOption(new commander.Option('--key <file>').requires('cert'))
+      .option('--cert <file>')
+      .configFile(configFile);
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      `error: option '--key <file>' from config '${configFile}' requires option '--cert <file>'`,
+    );
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  test('when several required options missing then error for each', () => {
+    const { program } = makeProgram();
+    program
+      .aggregateErrors()
+      .addOption(new commander.Option('--deploy').requires(['region', 'token']))
+      .option('--region <name>')
+      .option('--token <value>');
+    let caughtErr;
+    try {
+      program.parse(['--deploy'], { from: 'user' });
+    } catch (err) {
+      caughtErr = err;
+    }
+    expect(caughtErr.errors.map((err) => err.message)).toEqual([
+      "error: option '--deploy' requires option '--region <name>'",
+      "error: option '--deploy' requires option '--token <value>'",
+    ]);
+  });
+});
+
+describe('Option.requiredIf()', () => {
+  test('when condition values match and option missing then error', () => {
+    const { program } = makeProgram();
+    program.option('--provider <name>').addOption(
+      new commander.Option('--region <name>').requiredIf({
+        provider: 'aws',
+      }),
+    );
+    expect(() => {
+      program.parse(['--provider', 'aws'], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.missingRequiredOption',
+        message:
+          "error: option '--region <name>' is required when option '--provider <name>' is \"aws\"",
+      }),
+    );
+  });
+
+  test('when condition values do not match then action called', () => {
+    const { program, actionMock } = makeProgram();
+    program.option('--provider <name>').addOption(
+      new commander.Option('--region <name>').requiredIf({
+        provider: 'aws',
+      }),
+    );
+    program.parse(['--provider', 'local'], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when condition value from env then error mentions env', () => {
+    const { program } = makeProgram();
+    program
+      .addOption(new commander.Option('--ci').env('TEST_CI'))
+      .addOption(
+        new commander.Option('--token <value>').requiredIf({ ci: true }),
+      );
+    process.env.TEST_CI = '1';
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      "error: option '--token <value>' is required when environment variable 'TEST_CI' is true",
+    );
+    delete process.env.TEST_CI;
+  });
+
+  test('when condition value is default then error mentions default', () => {
+    const { program } = makeProgram();
+    program.option('--provider <name>', 'provider', 'aws').addOption(
+      new commander.Option('--region <name>').requiredIf({
+        provider: 'aws',
+      }),
+    );
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      "error: option '--region <name>' is required when the default for option '--provider <name>' is \"aws\"",
+    );
+  });
+
+  test('when predicate returns true and option missing then error', () => {
+    const { program } = makeProgram();
+    program
+      .option('--provider <name>')
+      .addOption(
+        new commander.Option('--region <name>').requiredIf(
+          (opts) => opts.provider !== undefined && opts.provider !== 'local',
+        ),
+      );
+    expect(() => {
+      program.parse(['--provider', 'gcp'], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.missingRequiredOption',
+        message: "error: required option '--region <name>' not specified",
+      }),
+    );
+  });
+
+  test('when predicate returns true and option specified then action called', () => {
+    const predicate = jest.fn(() => true);
+    const { program, actionMock } = makeProgram();
+    program
+      .option('--provider <name>')
+      .addOption(new commander.Option('--region <name>').requiredIf(predicate));
+    program.parse(['--provider', 'gcp', '--region', 'eu'], { from: 'user' });
+    expect(actionMock).toHaveBeenCalled();
+  });
+
+  test('when predicate called then receives option values', () => {
+    const predicate = jest.fn(() => false);
+    const { program } = makeProgram();
+    program
+      .option('--provider <name>')
+      .addOption(new commander.Option('--region <name>').requiredIf(predicate));
+    program.parse(['--provider', 'gcp'], { from: 'user' });
+    expect(predicate).toHaveBeenCalledWith({ provider: 'gcp' });
+  });
+
+  test('when subcommand used then checks program options too', () => {
+    const { program } = makeProgram();
+    program.option('--provider <name>').addOption(
+      new commander.Option('--region <name>').requiredIf({
+        provider: 'aws',
+      }),
+    );
+    program.command('sub').action(() => {});
+    expect(() => {
+      program.parse(['--provider', 'aws', 'sub'], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({ code: 'commander.missingRequiredOption' }),
+    );
+  });
+});
@@ -0,0 +1,217 @@
+const commander = require('../');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+
+function makeProgram() {
+  const program = new commander.Command('app');
+  program.exitOverride().configureOutput({ writeErr: () => {} });
+  return program;
+}
+
+describe('masked values', () => {
+  test('when sensitive option argument invalid then value masked in error', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--token <value>')
+        .sensitive()
+        .choices(['alpha', 'beta']),
+    );
+    expect(() => {
+      program.parse(['--token', 's3cret'], { from: 'user' });
+    }).toThrow(
+      "error: option '--token <value>' argument '***' is invalid. Allowed choices are alpha, beta.",
+    );
+  });
+
+  test('when sensitive option value from env invalid then value masked in error', () => {
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--pin <number>').sensitive().int().env('TEST_PIN'),
+    );
+    process.env.TEST_PIN = 's3cret';
+    expect(() => {
+      program.parse([], { from: 'user' });
+    }).toThrow(
+      "error: option '--pin <number>' value '***' from env 'TEST_PIN' is invalid. Not an integer.",
+    );
+    delete process.env.TEST_PIN;
+  });
+
+  test('when option not sensitive then value shown in error', () => {
+    const program = makeProgram();
+    program.addOption(new commander.Option('--count <number>').int());
+    expect(() => {
+      program.parse(['--count', 'abc'], { from: 'user' });
+    }).toThrow("argument 'abc' is invalid.");
+  });
+
+  test('when sensitive option triggers requiredIf then value masked in error', () => {
+    const program = makeProgram();
+    program
+      .addOption(new commander.Option('--token <value>').sensitive())
+      .addOption(
+        new commander.Option('--user <name>').requiredIf({ token: 's3cret' }),
+      );
+    expect(() => {
+      program.parse(['--token', 's3cret'], { from: 'user' });
+    }).toThrow(
+      "error: option '--user <name>' is required when option '--token <value>' is ***",
+    );
+  });
+
+  test('when sensitive option has default then default masked in help', () => {
+    const program = new commander.Command('app');
+    program.addOption(
+      new commander.Option('--token <value>', 'access token')
+        .default('s3cret')
+        .sensitive(),
+    );
+    const helpInformation = program.helpInformation();
+    expect(helpInformation).toMatch(/access token \(default: \*\*\*\)/);
+    expect(helpInformation).not.toContain('s3cret');
+  });
+
+  test('when sensitive option has default description then masked in help', () => {
+    const program = new commander.Command('app');
+    program.addOption(
+      new commander.Option('--token <value>', 'access token')
+        .default('s3cret', 'the s3cret token')
+        .sensitive(),
+    );
+    expect(program.helpInformation()).not.toContain('s3cret');
+  });
+
+  test('when sensitive option then default and preset masked in JSON', () => {
+    const program = new commander.Command('app');
+    program.addOption(
+      new commander.Option('--token [value]')
+        .default('s3cret')
+        .preset('pr3set')
+        .sensitive(),
+    );
+    const json = JSON.stringify(program);
+    expect(json).not.toContain('s3cret');
+    expect(json).not.toContain('pr3set');
+    expect(program.describe().options[0]).toEqual(
+      expect.objectContaining({
+        sensitive: true,
+        defaultValue: '***',
+        presetArg: '***',
+      }),
+    );
+  });
+
+  test('when option not sensitive then default in JSON', () => {
+    const program = new commander.Command('app');
+    program.option('--name <value>', 'name', 'john');
+    const description = program.describe().options[0];
+    expect(description.defaultValue).toBe('john');
+    expect(description).not.toHaveProperty('sensitive');
+  });
+});
+
+describe('Option.fromFile()', () => {
+  let tmpDir;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'commander-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true });
+  });
+
+  test('when fromFile() then companion option added', () => {
+    const program = new commander.Command();
+    program.addOption(new commander.Option('--token <value>').fromFile());
+    expect(program.options.map((option) => option.flags)).toEqual([
+      '--token <value>',
+      '--token-file <path>',
+    ]);
+  });
+
+  test('when file option used then value read from file', () => {
+    const file = path.join(tmpDir, 'token.txt');
+    fs.writeFileSync(file, 's3cret\n');
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--token <value>').sensitive().fromFile(),
+    );
+    program.parse(['--token-file', file], { from: 'user' });
+    expect(program.opts().token).toBe('s3cret');
+    expect(program.getOptionValueSource('token')).toBe('cli');
+  });
+
+  test('when custom flags then value read from file', () => {
+    const file = path.join(tmpDir, 'token.txt');
+    fs.writeFileSync(file, 's3cret');
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--token <value>').fromFile('--token-path <file>'),
+    );
+    program.parse(['--token-path', file], { from: 'user' });
+    expect(program.opts().token).toBe('s3cret');
+  });
+
+  test('when path is dash then value read from stdin', () => {
+    const readFileSync = jest
+      .spyOn(fs, 'readFileSync')
+      .mockImplementation(() => 's3cret\n');
+    const program = makeProgram();
+    program.addOption(new commander.Option('--token <value>').fromFile());
+    program.parse(['--token-file', '-'], { from: 'user' });
+    expect(readFileSync).toHaveBeenCalledWith(0, 'utf8');
+    expect(program.opts().token).toBe('s3cret');
+    readFileSync.mockRestore();
+  });
+
+  test('when file has custom processing then applied to file contents', () => {
+    const file = path.join(tmpDir, 'pin.txt');
+    fs.writeFileSync(file, '1234\n');
+    const program = makeProgram();
+    program.addOption(new commander.Option('--pin <number>').int().fromFile());
+    program.parse(['--pin-file', file], { from: 'user' });
+    expect(program.opts().pin).toBe(1234);
+  });
+
+  test('when file missing then error', () => {
+    const file = path.join(tmpDir, 'missing.txt');
+    const program = makeProgram();
+    program.addOption(new commander.Option('--token <value>').fromFile());
+    expect(() => {
+      program.parse(['--token-file', file], { from: 'user' });
+    }).toThrow(
+      expect.objectContaining({
+        code: 'commander.invalidArgument',
+        message: expect.stringContaining(
+          `error: option '--token-file <path>' argument '${file}' is invalid. Cannot read file.`,
+        ),
+      }),
+    );
+  });
+
+  test('when file contents invalid for sensitive option then value masked', () => {
+    const file = path.join(tmpDir, 'pin.txt');
+    fs.writeFileSync(file, 's3cret');
+    const program = makeProgram();
+    program.addOption(
+      new commander.Option('--pin <number>').sensitive().int().fromFile(),
+    );
+    expect(() => {
+      program.parse(['--pin-file', file], { from: 'user' });
+    }).toThrow(
+      "error: option '--pin <number>' argument '***' is invalid. Not an integer.",
+    );
+  });
+
+  test('when help then companion option listed', () => {
+    const program = new commander.Command('app');
+    program.addOption(
+      new commander.Option('--token <value>', 'access token').fromFile(),
+    );
+    expect(program.helpInformation()).toMatch(
+      / {2}--token-file <path> +read value for --token from file, or - for stdin\n/,
+    );
+  });
+});
@@ -0,0 +1,287 @@
+const commander = require('../');
+
+test('when value invalid then throws InvalidArgumentError', () => {
+  expect(() => commander.intParser()('abc')).toThrow(
+    commander.InvalidArgumentError,
+  );
+});
+
+describe('intParser', () => {
+  test.each([
+    ['42', 42],
+    ['-7', -7],
+    ['+3', 3],
+    [' 8 ', 8],
+  ])('when parse %j then returns %j', (value, expected) => {
+    expect(commander.intParser()(value)).toBe(expected);
+  });
+
+  test.each(['', '1.5', '12abc', 'abc', '0x10'])(
+    'when parse %j then throws',
+    (value) => {
+      expect(() => commander.intParser()(value)).toThrow('Not an integer.');
+    },
+  );
+
+  test('when below min and max then throws range message', () => {
+    expect(() => commander.intParser({ min: 1, max: 10 })('0')).toThrow(
+      'Must be between 1 and 10.',
+    );
+  });
+
+  test('when below min then throws min message', () => {
+    expect(() => commander.intParser({ min: 1 })('0')).toThrow(
+      'Must be at least 1.',
+    );
+  });
+
+  test('when above max then throws max message', () => {
+    expect(() => commander.intParser({ max: 10 })('11')).toThrow(
+      'Must be at most 10.',
+    );
+  });
+
+  test('when at limits then returns value', () => {
+    const parse = commander.intParser({ min: 1, max: 10 });
+    expect(parse('1')).toBe(1);
+    expect(parse('10')).toBe(10);
+  });
+});
+
+describe('floatParser', () => {
+  test.each([
+    ['1.5', 1.5],
+    ['-2', -2],
+    ['1e3', 1000],
+  ])('when parse %j then returns %j', (value, expected) => {
+    expect(commander.floatParser()(value)).toBe(expected);
+  });
+
+  test.each(['', ' ', 'abc', '1.5x', 'Infinity'])(
+    'when parse %j then throws',
+    (value) => {
+      expect(() => commander.floatParser()(value)).toThrow('Not a number.');
+    },
+  );
+
+  test('when outside range then throws', () => {
+    expect(() => commander.floatParser({ min: 0, max: 1 })('1.5')).toThrow(
+      'Must be between 0 and 1.',
+    );
+  });
+});
+
+describe('booleanParser', () => {
+  test.each(['true', 'TRUE', 'yes', 'on', '1'])(
+    'when parse %j then returns true',
+    (value) => {
+      expect(commander.booleanParser()(value)).toBe(true);
+    },
+  );
+
+  test.each(['false', 'No', 'off', '0'])(
+    'when parse %j then returns false',
+    (value) => {
+      expect(commander.booleanParser()(value)).toBe(false);
+    },
+  );
+
+  test('when parse other value then throws', () => {
+    expect(() => commander.booleanParser()('maybe')).toThrow('Not a boolean.');
+  });
+
+  test('when custom values then only custom values accepted', () => {
+    const parser = commander.booleanParser({ true: ['Y'], false: ['n'] });
+    expect(parser('y')).toBe(true);
+    expect(parser('N')).toBe(false);
+    expect(() => parser('yes')).toThrow(
+      'Not a boolean. Expected y for true, or n for false.',
+    );
+  });
+});
+
+describe('durationParser', () => {
+  test.each([
+    ['250', 250],
+    ['500ms', 500],
+    ['30s', 30000],
+    ['1.5s', 1500],
+    ['5m', 300000],
+    ['1h30m', 5400000],
+    ['2D', 172800000],
+    ['1w', 604800000],
+  ])('when parse %j then returns %j', (value, expected) => {
+    expect(commander.durationParser()(value)).toBe(expected);
+  });
+
+  test.each(['', 'abc', '5x', 's', '1h 30m'])(
+    'when parse %j then throws',
+    (value) => {
+      expect(() => commander.durationParser()(value)).toThrow(
+        'Not a duration.',
+      );
+    },
+  );
+
+  test('when above max then throws', () => {
+    expect(() => commander.durationParser({ max: 1000 })('2s')).toThrow(
+      'Must be at most 1000.',
+    );
+  });
+});
+
+describe('bytesParser', () => {
+  test.each([
+    ['512', 512],
+    ['512B', 512],
+    ['10KB', 10000],
+    ['10kb', 10000],
+    ['2MB', 2000000],
+    ['1K', 1024],
+    ['64M', 64 * 1024 * 1024],
+    ['1.5GiB', 1.5 * 1024 * 1024 * 1024],
+    ['1 TiB', 1024 ** 4],
+    ['1.5', 2],
+  ])('when parse %j then returns %j', (value, expected) => {
+    expect(commander.bytesParser()(value)).toBe(expected);
+  });
+
+  test.each(['', 'abc', '10XB', 'KB', '10constructor'])(
+    'when parse %j then throws',
+    (value) => {
+      expect(() => commander.bytesParser()(value)).toThrow('Not a size.');
+    },
+  );
+});
+
+describe('urlParser', () => {
+  test('when parse URL then returns URL', () => {
+    const url = commander.urlParser()('https://example.com/path');
+    expect(url).toBeInstanceOf(URL);
+    expect(url.href).toBe('https://example.com/path');
+  });
+
+  test('when parse relative path then throws', () => {
+    expect(() => commander.urlParser()('/path')).toThrow('Not a valid URL.');
+  });
+
+  test('when protocol not allowed then throws', () => {
+    expect(() =>
+      commander.urlParser({ protocols: ['https:', 'wss:'] })(
+        'http://example.com',
+      ),
+    ).toThrow('Protocol must be one of https:, wss:.');
+  });
+});
+
+describe('dateParser', () => {
+  test('when parse date then returns Date', () => {
+    const date = commander.dateParser()('2024-01-31T12:00:00Z');
+    expect(date).toBeInstanceOf(Date);
+    expect(date.toISOString()).toBe('2024-01-31T12:00:00.000Z');
+  });
+
+  test.each(['', 'tomorrow', '2024-13-45'])(
+    'when parse %j then throws',
+    (value) => {
+      expect(() => commander.dateParser()(value)).toThrow('Not a valid date.');
+    },
+  );
+});
+
+describe('Option typed parser methods', () => {
+  test('when option uses .int() then value is number', () => {
+    const program = new commander.Command();
+    program.addOption(new commander.Option('-p, --port <number>').int());
+    program.parse(['-p', '8080'], { from: 'user' });
+    expect(program.opts().port).toBe(8080);
+  });
+
+  test('when option value invalid then error includes option and message', () => {
+    const program = new commander.Command();
+    program
+      .exitOverride()
+      .configureOutput({ writeErr: () => {} })
+      .addOption(
+        new commander.Option('-p, --port <number>').int({ min: 1, max: 65535 }),
+      );
+    expect(() => {
+      program.parse(['-p', '0'], { from: 'user' });
+    }).toThrow(
+      "error: option '-p, --port <number>' argument '0' is invalid. Must be between 1 and 65535.",
+    );
+  });
+
+  test('when variadic option uses .duration() then values collected', () => {
+    const program = new commander.Command();
+    program.addOption(
+      new commander.Option('--timeouts <durations...>').duration(),
+    );
+    program.parse(['--timeouts', '1s', '2m'], { from: 'user' });
+    expect(program.opts().timeouts).toEqual([1000, 120000]);
+  });
+
+  test('when variadic option has default then default replaced', () => {
+    const program = new commander.Command();
+    program.addOption(
+      new commander.Option('--sizes <sizes...>').bytes().default([1]),
+    );
+    program.parse(['--sizes', '1K'], { from: 'user' });
+    expect(program.opts().sizes).toEqual([1024]);
+  });
+
+  test('when option uses .boolean() then value is boolean', () => {
+    const program = new commander.Command();
+    program.addOption(new commander.Option('--color <when>').boolean());
+    program.parse(['--color', 'off'], { from: 'user' });
+    expect(program.opts().color).toBe(false);
+  });
+
+  test('when option uses .url() then value is URL', () => {
+    const program = new commander.Command();
+    program.addOption(new commander.Option('--registry <url>').url());
+    program.parse(['--registry', 'https://example.com'], { from: 'user' });
+    expect(program.opts().registry).toBeInstanceOf(URL);
+  });
+});
+
+describe('Argument typed parser methods', () => {
+  test('when argument uses .float() then value is number', () => {
+    let value;
+    const program = new commander.Command();
+    program
+      .addArgument(new commander.Argument('<ratio>').float())
+      .action((ratio) => {
+        value = ratio;
+      });
+    program.parse(['0.5'], { from: 'user' });
+    expect(value).toBe(0.5);
+  });
+
+  test('when variadic argument uses .date() then values collected', () => {
+    let value;
+    const program = new commander.Command();
+    program
+      .addArgument(new commander.Argument('<dates...>').date())
+      .action((dates) => {
+        value = dates;
+      });
+    program.parse(['2024-01-01', '2024-02-01'], { from: 'user' });
+    expect(value).toHaveLength(2);
+    expect(value[1]).toBeInstanceOf(Date);
+  });
+
+  test('when argument value invalid then error includes argument and message', () => {
+    const program = new commander.Command();
+    program
+      .exitOverride()
+      .configureOutput({ writeErr: () => {} })
+      .addArgument(new commander.Argument('<count>').int())
+      .action(() => {});
+    expect(() => {
+      program.parse(['many'], { from: 'user' });
+    }).toThrow(
+      "error: command-argument value 'many' is invalid for argument 'count'. Not an integer.",
+    );
+  });
+});
@@ -6,7 +6,11 @@ import {
   InvalidArgumentError,
   InvalidOptionArgumentError,
   Help,
+  ManFormatter,
+  MarkdownFormatter,
   createCommand,
+  intParser,
+  urlParser,
 } from '../';
 
 // Do some simple checks that expected imports are available at runtime.
@@ -52,3 +56,19 @@ test('InvalidOptionArgumentError', () => {
 test('Help', () => {
   checkClass(new Help(), 'Help');
 });
+
+test('ManFormatter', () => {
+  checkClass(new ManFormatter(), 'ManFormatter');
+});
+
+test('MarkdownFormatter', () => {
+  checkClass(new MarkdownFormatter(), 'MarkdownFormatter');
+});
+
+test('intParser', () => {
+  expect(intParser()('42')).toBe(42);
+});
+
+test('urlParser', () => {
+  expect(urlParser()('https://example.com')).toBeInstanceOf(URL);
+});
@@ -29,6 +29,20 @@ type InferVariadic<S extends string, ArgT> = S extends `${string}...`
   ? ArgT[]
   : ArgT;
 
+// A map option declared with a key=value placeholder collects the pairs into an object.
+type InferOptionValueType<
+  S extends string,
+  ValueT,
+> = S extends `${string}=${string}`
+  ? Record<string, string>
+  : InferVariadic<S, ValueT>;
+
+// The value type from a built-in parser, which collects the values when variadic.
+type InferParsedType<
+  Usage extends string,
+  T,
+> = Usage extends `${string}...${string}` ? T[] : T;
+
 type InferArgumentType<Value extends string, DefaultT, CoerceT, ChoicesT> = [
   CoerceT,
 ] extends [undefined]
@@ -199,6 +213,15 @@ type InferOptionsCombine<
   CombineOptions<Options, BuildOptionProperty<Name, FullValueT, AlwaysDefined>>
 >;
 
+// A negated option resets a counting option to 0, rather than setting false.
+type NegateCountPresetType<OptionT, PresetT> = [
+  Exclude<OptionT, undefined>,
+] extends [number]
+  ? [PresetT] extends [false]
+    ? number
+    : PresetT
+  : PresetT;
+
 // Combine the possible types
 type InferOptionsNegateCombo<
   Options,
@@ -210,7 +233,12 @@ type InferOptionsNegateCombo<
   AlwaysDefined extends boolean,
 > = Flag extends `--no-${string}`
   ? Name extends keyof Options
-    ? InferOptionsCombine<Options, Name, PresetT, true> // combo does not set default, leave that to positive option
+    ? InferOptionsCombine<
+        Options,
+        Name,
+        NegateCountPresetType<Options[Name], PresetT>,
+        true
+      > // combo does not set default, leave that to positive option
     : InferOptionsCombine<Options, Name, PresetT | DefaultT, true> // lone negated option sets default
   : InferOptionsCombine<
       Options,
@@ -238,7 +266,7 @@ type InferOptionTypes<
   CoerceValueType<
     CoerceT,
     [ChoicesT] extends [undefined]
-      ? InferVariadic<Value, ValueT>
+      ? InferOptionValueType<Value, ValueT>
       : InferVariadic<Value, ChoicesT>
   >,
   NegatePresetType<Flag, CoercePresetType<CoerceT, PresetT>>,
@@ -326,6 +354,8 @@ export class CommanderError extends Error {
   exitCode: number;
   message: string;
   nestedError?: string;
+  /** The individual errors, when the problems are reported together using `.aggregateErrors()`. */
+  errors?: CommanderError[];
 
   /**
    * Constructs the CommanderError class
@@ -347,6 +377,117 @@ export class InvalidArgumentError extends CommanderError {
 }
 export { InvalidArgumentError as InvalidOptionArgumentError }; // deprecated old name
 
+export interface NumberParserOptions {
+  /** The smallest allowed value. */
+  min?: number;
+  /** The largest allowed value. */
+  max?: number;
+}
+
+export interface UrlParserOptions {
+  /** The allowed protocols, including the trailing colon like `'https:'`. */
+  protocols?: string[];
+}
+
+export interface BooleanValues {
+  /** The values accepted as true, ignoring case. */
+  true?: string[];
+  /** The values accepted as false, ignoring case. */
+  false?: string[];
+}
+
+/** How a map option handles a key that is used more than once. */
+export type MapDuplicateKeys = 'error' | 'last' | 'collect';
+
+export interface MapOptions<Duplicates extends MapDuplicateKeys = 'last'> {
+  /**
+   * When a key is used more than once: report an `'error'`, use the `'last'` value (the default),
+   * or `'collect'` the values into an array for every key.
+   */
+  duplicates?: Duplicates;
+}
+
+// Built-in parsers for use with `.argParser()`, which throw an InvalidArgumentError for an invalid value.
+
+/**
+ * Make a parser for an integer, optionally within a range.
+ *
+ * @example
+ * ```ts
+ * program.option('-p, --port <number>', 'port number', intParser({ min: 1, max: 65535 }));
+ * ```
+ */
+export function intParser(
+  options?: NumberParserOptions,
+): (value: string) => number;
+
+/**
+ * Make a parser for a number, optionally within a range.
+ */
+export function floatParser(
+  options?: NumberParserOptions,
+): (value: string) => number;
+
+/**
+ * Make a parser for a boolean, which accepts true/false, yes/no, on/off, and 1/0 ignoring case.
+ * Supply the accepted true and false values to use other words.
+ */
+export function booleanParser(
+  values?: BooleanValues,
+): (value: string) => boolean;
+
+/**
+ * Make a parser for a duration like `500ms`, `30s`, or `1h30m`, returning milliseconds.
+ * A number without a unit is milliseconds.
+ */
+export function durationParser(
+  options?: NumberParserOptions,
+): (value: string) => number;
+
+/**
+ * Make a parser for a size like `512`, `10KB`, or `1.5GiB`, returning bytes.
+ * KB/MB/GB/TB are powers of 1000, while K/M/G/T and KiB/MiB/GiB/TiB are powers of 1024.
+ */
+export function bytesParser(
+  options?: NumberParserOptions,
+): (value: string) => number;
+
+/**
+ * Make a parser for a URL, optionally restricting the protocols.
+ */
+export function urlParser(options?: UrlParserOptions): (value: string) => URL;
+
+/**
+ * Make a parser for a date, like `2024-01-31` or `2024-01-31T12:00:00Z`.
+ */
+export function dateParser(): (value: string) => Date;
+
+/** The issue reported by a Standard Schema validator for an invalid value. */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/** The result of validating a value using a Standard Schema validator. */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * A validator following the [Standard Schema](https://standardschema.dev) specification,
+ * like those from Zod, Valibot, and ArkType.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
 export interface ErrorOptions {
   // optional parameter for error()
   /** an id string representing the error */
@@ -367,7 +508,9 @@ export class Argument<
   variadic: boolean;
   defaultValue?: any;
   defaultValueDescription?: string;
+  envVar?: string;
   argChoices?: string[];
+  completer?: CompletionFn;
 
   /**
    * Initialize a new command argument with the given name and description.
@@ -389,6 +532,12 @@ export class Argument<
     description?: string,
   ): Argument<Usage, T, CoerceT, ArgRequired, ChoicesT>;
 
+  /**
+   * Set environment variable to check for argument value when the argument is missing
+   * from the command line. The environment variable is used before the default value.
+   */
+  env(name: string): this;
+
   /**
    * Set the custom handler for processing CLI command arguments into argument values.
    */
@@ -396,6 +545,103 @@ export class Argument<
     fn: (value: string, previous: T) => T,
   ): Argument<Usage, DefaultT, T, ArgRequired, undefined>; // setting ChoicesT to undefined because argParser overwrites choices
 
+  /**
+   * Parse the value as an integer, optionally within a range.
+   *
+   * @example
+   * ```ts
+   * new Argument('<port>').int({ min: 1, max: 65535 });
+   * ```
+   */
+  int(
+    options?: NumberParserOptions,
+  ): Argument<
+    Usage,
+    DefaultT,
+    InferParsedType<Usage, number>,
+    ArgRequired,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a number, optionally within a range.
+   */
+  float(
+    options?: NumberParserOptions,
+  ): Argument<
+    Usage,
+    DefaultT,
+    InferParsedType<Usage, number>,
+    ArgRequired,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a boolean, accepting true/false, yes/no, on/off, and 1/0 ignoring case.
+   */
+  boolean(): Argument<
+    Usage,
+    DefaultT,
+    InferParsedType<Usage, boolean>,
+    ArgRequired,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a duration like `500ms`, `30s`, or `1h30m`, in milliseconds.
+   */
+  duration(
+    options?: NumberParserOptions,
+  ): Argument<
+    Usage,
+    DefaultT,
+    InferParsedType<Usage, number>,
+    ArgRequired,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a size like `512`, `10KB`, or `1.5GiB`, in bytes.
+   */
+  bytes(
+    options?: NumberParserOptions,
+  ): Argument<
+    Usage,
+    DefaultT,
+    InferParsedType<Usage, number>,
+    ArgRequired,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a URL, optionally restricting the protocols.
+   *
+   * @example
+   * ```ts
+   * new Argument('<url>').url({ protocols: ['https:'] });
+   * ```
+   */
+  url(
+    options?: UrlParserOptions,
+  ): Argument<
+    Usage,
+    DefaultT,
+    InferParsedType<Usage, URL>,
+    ArgRequired,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a date, like `2024-01-31`.
+   */
+  date(): Argument<
+    Usage,
+    DefaultT,
+    InferParsedType<Usage, Date>,
+    ArgRequired,
+    undefined
+  >;
+
   /**
    * Only allow argument value to be one of choices.
    */
@@ -403,6 +649,25 @@ export class Argument<
     values: T,
   ): Argument<Usage, DefaultT, undefined, ArgRequired, T[number]>; // setting CoerceT to undefined because choices overrides argParser
 
+  /**
+   * Validate the value using a Standard Schema validator, like those from Zod, Valibot, and ArkType.
+   * The validator is called after any custom processing, and the issues are reported as an invalid value.
+   *
+   * @example
+   * ```ts
+   * new Argument('<email>').schema(z.string().email());
+   * ```
+   */
+  schema<T>(
+    schema: StandardSchemaV1<unknown, T>,
+  ): Argument<Usage, DefaultT, T, ArgRequired, undefined>; // setting ChoicesT to undefined because the output of the schema is the value
+
+  /**
+   * Set the callback for computing candidate argument values when completing a command line,
+   * such as branch names or file paths. Used instead of the choices, if any.
+   */
+  complete(fn: CompletionFn): this;
+
   /**
    * Make argument required.
    */
@@ -438,7 +703,20 @@ export class Option<
   envVar?: string;
   parseArg?: <T>(value: string, previous: T) => T;
   hidden: boolean;
+  /** The value is sensitive, like a password or token. */
+  secret: boolean;
+  /** The heading for the group in which the option is listed in the help. */
+  helpGroupHeading?: string;
+  /** Set for a map option, which collects key=value pairs into an object. */
+  mapDuplicates?: MapDuplicateKeys;
+  /** Each use of the option increments the value, like for verbosity levels. */
+  counting: boolean;
+  /** Flags for the companion option to read the value from a file. */
+  fileFlags?: string;
+  /** Read the value from a file when the option-argument has this prefix. */
+  fileValuePrefix?: string;
   argChoices?: string[];
+  completer?: CompletionFn;
 
   constructor(flags: Usage, description?: string);
 
@@ -474,6 +752,32 @@ export class Option<
    */
   conflicts(names: string | string[]): this;
 
+  /**
+   * Add option name(s) that are required when this option is used.
+   * An error will be displayed if a required option does not have a value during parsing.
+   *
+   * @example
+   * ```ts
+   * new Option('--key <file>').requires('cert');
+   * new Option('--deploy').requires(['region', 'token']);
+   * ```
+   */
+  requires(names: string | string[]): this;
+
+  /**
+   * Make the option mandatory when the other option values match, or when the predicate returns true.
+   * The predicate is called with the option values after parsing.
+   *
+   * @example
+   * ```ts
+   * new Option('--region <name>').requiredIf({ provider: 'aws' });
+   * new Option('--region <name>').requiredIf((opts) => opts.provider !== 'local');
+   * ```
+   */
+  requiredIf(
+    condition: OptionValues | ((optionValues: OptionValues) => boolean),
+  ): this;
+
   /**
    * Specify implied option values for when this option is set and the implied options are not.
    *
@@ -501,6 +805,145 @@ export class Option<
     fn: (value: string, previous: T) => T,
   ): Option<Usage, PresetT, DefaultT, T, Mandatory, undefined>; // setting ChoicesT to undefined because argParser overrides choices
 
+  /**
+   * Parse the value as an integer, optionally within a range.
+   *
+   * @example
+   * ```ts
+   * new Option('-p, --port <number>').int({ min: 1, max: 65535 });
+   * ```
+   */
+  int(
+    options?: NumberParserOptions,
+  ): Option<
+    Usage,
+    PresetT,
+    DefaultT,
+    InferParsedType<Usage, number>,
+    Mandatory,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a number, optionally within a range.
+   */
+  float(
+    options?: NumberParserOptions,
+  ): Option<
+    Usage,
+    PresetT,
+    DefaultT,
+    InferParsedType<Usage, number>,
+    Mandatory,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a boolean, accepting true/false, yes/no, on/off, and 1/0 ignoring case.
+   */
+  boolean(): Option<
+    Usage,
+    PresetT,
+    DefaultT,
+    InferParsedType<Usage, boolean>,
+    Mandatory,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a duration like `500ms`, `30s`, or `1h30m`, in milliseconds.
+   */
+  duration(
+    options?: NumberParserOptions,
+  ): Option<
+    Usage,
+    PresetT,
+    DefaultT,
+    InferParsedType<Usage, number>,
+    Mandatory,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a size like `512`, `10KB`, or `1.5GiB`, in bytes.
+   */
+  bytes(
+    options?: NumberParserOptions,
+  ): Option<
+    Usage,
+    PresetT,
+    DefaultT,
+    InferParsedType<Usage, number>,
+    Mandatory,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a URL, optionally restricting the protocols.
+   *
+   * @example
+   * ```ts
+   * new Option('--endpoint <url>').url({ protocols: ['https:'] });
+   * ```
+   */
+  url(
+    options?: UrlParserOptions,
+  ): Option<
+    Usage,
+    PresetT,
+    DefaultT,
+    InferParsedType<Usage, URL>,
+    Mandatory,
+    undefined
+  >;
+
+  /**
+   * Parse the value as a date, like `2024-01-31`.
+   */
+  date(): Option<
+    Usage,
+    PresetT,
+    DefaultT,
+    InferParsedType<Usage, Date>,
+    Mandatory,
+    undefined
+  >;
+
+  /**
+   * Collect key=value pairs into an object. The option may be repeated, and a value may hold
+   * several pairs separated by commas, like `--label a=1,b=2`.
+   * A map option can also be declared in the flags, like `--label <key=value...>`.
+   * When the duplicates are collected, every key holds an array of values.
+   *
+   * @example
+   * ```ts
+   * new Option('--label <label>').map({ duplicates: 'error' });
+   * ```
+   */
+  map<Duplicates extends MapDuplicateKeys = 'last'>(
+    options?: MapOptions<Duplicates>,
+  ): Option<
+    Usage,
+    PresetT,
+    DefaultT,
+    Duplicates extends 'collect'
+      ? Record<string, string[]>
+      : Record<string, string>,
+    Mandatory,
+    undefined
+  >;
+
+  /**
+   * Count the uses of a boolean option, like for verbosity levels with `-vvv`.
+   * The value is a number, and a matching negated option like `--no-verbose` resets it to 0.
+   *
+   * @example
+   * ```ts
+   * new Option('-v, --verbose', 'more output').count();
+   * ```
+   */
+  count(): Option<Usage, number, DefaultT, number, Mandatory, undefined>;
+
   /**
    * Whether the option is mandatory and must have a value after parsing.
    */
@@ -513,6 +956,45 @@ export class Option<
    */
   hideHelp(hide?: boolean): this;
 
+  /**
+   * Set the heading for the group in which the option is listed in the help.
+   * The default heading is `Options`.
+   */
+  helpGroup(heading: string): this;
+
+  /**
+   * Mark the option value as sensitive, like a password or token. The value is not echoed when prompting for it,
+   * and is masked in error messages, in the default shown in the help, and in `.describe()` and `.toJSON()`.
+   */
+  sensitive(sensitive?: boolean): this;
+
+  /**
+   * Add a companion option to read the value from a file, or from stdin when the path is `-`.
+   * This keeps sensitive values out of the shell history. The default flags are like `--token-file <path>`.
+   *
+   * @example
+   * ```ts
+   * new Option('--token <value>').sensitive().fromFile();
+   * ```
+   */
+  fromFile(flags?: string): this;
+
+  /**
+   * Read the value from a file when the option-argument on the command line starts with the prefix,
+   * like `--data @body.json`. A trailing newline is removed from the file contents.
+   *
+   * @example
+   * ```ts
+   * new Option('-d, --data <text>').fileValue();
+   * ```
+   */
+  fileValue(prefix?: string | boolean): this;
+
+  /**
+   * Return the value for display, or a mask if the option value is sensitive.
+   */
+  maskValue<T>(value: T): T | string;
+
   /**
    * Only allow option value to be one of choices.
    */
@@ -520,6 +1002,30 @@ export class Option<
     values: T,
   ): Option<Usage, PresetT, DefaultT, undefined, Mandatory, T[number]>; // setting CoerceT to undefined becuase choices overrides argParser
 
+  /**
+   * Validate the value using a Standard Schema validator, like those from Zod, Valibot, and ArkType.
+   * The validator is called after any custom processing, and the issues are reported as an invalid value.
+   *
+   * @example
+   * ```ts
+   * new Option('-p, --port <number>').schema(z.coerce.number().int().positive());
+   * ```
+   */
+  schema<T>(
+    schema: StandardSchemaV1<unknown, T>,
+  ): Option<Usage, PresetT, DefaultT, T, Mandatory, undefined>; // setting ChoicesT to undefined because the output of the schema is the value
+
+  /**
+   * Set the callback for computing candidate option values when completing a command line,
+   * such as branch names or file paths. Used instead of the choices, if any.
+   *
+   * @example
+   * ```ts
+   * new Option('--branch <name>').complete((partial) => listBranches(partial));
+   * ```
+   */
+  complete(fn: CompletionFn): this;
+
   /**
    * Return option name.
    */
@@ -537,6 +1043,11 @@ export class Option<
    * Options are one of boolean, negated, required argument, or optional argument.
    */
   isBoolean(): boolean;
+
+  /**
+   * Return whether a map option, which collects key=value pairs into an object.
+   */
+  isMap(): boolean;
 }
 
 export class Help {
@@ -574,6 +1085,15 @@ export class Help {
   visibleGlobalOptions(cmd: CommandUnknownOpts): Option[];
   /** Get an array of the arguments which have descriptions. */
   visibleArguments(cmd: CommandUnknownOpts): Argument[];
+  /**
+   * Group the visible items by their help group heading. The groups are in the order first used by the unsorted items,
+   * and the items within each group are in the order of the visible items, so any sorting applies within each group.
+   */
+  groupItems<T>(
+    unsortedItems: readonly T[],
+    visibleItems: T[],
+    getGroup: (item: T) => string,
+  ): Map<string, T[]>;
 
   /** Get the longest command term length. */
   longestSubcommandTermLength(cmd: CommandUnknownOpts, helper: Help): number;
@@ -602,9 +1122,184 @@ export class Help {
 }
 export type HelpConfiguration = Partial<Help>;
 
+export interface ManPageOptions {
+  /** Manual section, defaults to 1. */
+  section?: string | number;
+  /** Date for the page footer, defaults to today like `'2024-01-31'`. */
+  date?: string;
+  /** Source for the page footer, such as the package name and version. */
+  source?: string;
+  /** Manual title for the page header. */
+  manual?: string;
+}
+export interface ManPage {
+  /** File name for the page, like `'git-remote.1'`. */
+  name: string;
+  content: string;
+}
+
+export class ManFormatter {
+  section: string;
+  date: string;
+  source: string;
+  manual: string;
+
+  /**
+   * Initialize a new `ManFormatter`, optionally with the section and the text for the page header and footer.
+   */
+  constructor(options?: ManPageOptions);
+
+  /**
+   * Escape text for roff, so hyphens, backslashes, and leading control characters are output literally.
+   */
+  escape(str: string): string;
+  /** Get the page name for the command, which is the command path joined with hyphens like `git-remote`. */
+  pageName(cmd: CommandUnknownOpts): string;
+  /** Get the names of the command and its ancestors, starting with the program. */
+  commandPath(cmd: CommandUnknownOpts): string[];
+  /** Format a list of terms and descriptions as tagged paragraphs. */
+  formatItems(items: Array<{ term: string; description: string }>): string[];
+  /** Get the visible subcommands which have their own page, which excludes the implicit help command. */
+  subcommandsWithPages(cmd: CommandUnknownOpts, helper: Help): CommandUnknownOpts[];
+
+  /**
+   * Generate the man page for the command in roff format,
+   * using the same Help methods used to generate the help.
+   */
+  formatManPage(cmd: CommandUnknownOpts, helper: Help): string;
+  /** Generate the man pages for the command and its visible subcommands. */
+  formatManPages(cmd: CommandUnknownOpts, helper: Help): ManPage[];
+}
+
+export interface MarkdownOptions {
+  /** Generate one page per command, rather than a single page. */
+  split?: boolean;
+}
+export interface MarkdownPage {
+  /** File name for the page, like `'git-remote.md'`. */
+  name: string;
+  content: string;
+}
+
+export class MarkdownFormatter {
+  split: boolean;
+
+  /**
+   * Initialize a new `MarkdownFormatter`, optionally splitting the documentation into one page per command.
+   */
+  constructor(options?: MarkdownOptions);
+
+  /** Escape text for a table cell, so pipes do not end the cell and line breaks do not end the row. */
+  escapeCell(str: string): string;
+  /** Get the names of the command and its ancestors, starting with the program. */
+  commandPath(cmd: CommandUnknownOpts): string[];
+  /** Get the page name for the command, which is the command path joined with hyphens like `git-remote.md`. */
+  pageName(cmd: CommandUnknownOpts): string;
+  /** Get the link to the documentation for the command, either to the page or to the heading on the same page. */
+  commandLink(cmd: CommandUnknownOpts): string;
+  /** Get the text added using `.addHelpText()` for the given position. */
+  helpText(cmd: CommandUnknownOpts, position: AddHelpTextPosition): string;
+  /** Format the terms and descriptions as a table. */
+  formatTable(
+    heading: [string, string],
+    rows: Array<{ term: string; description: string }>,
+  ): string[];
+  /** Get the visible subcommands which have their own documentation, which excludes the implicit help command. */
+  subcommandsWithDocs(cmd: CommandUnknownOpts, helper: Help): CommandUnknownOpts[];
+
+  /**
+   * Generate the Markdown documentation for the command, using the same Help methods used to generate the help.
+   *
+   * @param level - heading level for the command
+   */
+  formatCommand(cmd: CommandUnknownOpts, helper: Help, level?: number): string;
+  /**
+   * Generate the Markdown documentation for the command and its visible subcommands,
+   * either as a single page or as one page per command.
+   */
+  formatPages(cmd: CommandUnknownOpts, helper: Help): MarkdownPage[];
+}
+
 export interface ParseOptions {
   from: 'node' | 'electron' | 'user';
 }
+export interface ReplOptions {
+  /** The prompt, defaults to the command name followed by `> `. */
+  prompt?: string;
+  /** Stream to read the lines from, defaults to `process.stdin`. */
+  input?: NodeJS.ReadableStream;
+  /** Stream to write the prompt to, defaults to `process.stdout`. */
+  output?: NodeJS.WritableStream;
+  /** Whether to treat the streams like a terminal, defaults to checking `output.isTTY`. */
+  terminal?: boolean;
+  /** Maximum number of lines kept in the history, defaults to 30. */
+  historySize?: number;
+}
+export type ConfigFormatParser = (content: string, file: string) => unknown;
+export interface ConfigFileOptions {
+  /** Parsers for config file formats, keyed by file extension like `'.yaml'`. JSON is supported by default. */
+  formats?: Record<string, ConfigFormatParser>;
+}
+export interface ConfigDiscoveryOptions extends ConfigFileOptions {
+  /** Directory to start searching for project config files, defaults to `process.cwd()`. */
+  cwd?: string;
+  /** Directory containing the user config file, or `false` to skip. */
+  userDir?: string | false;
+  /** Directory containing the system config file, or `false` to skip. */
+  systemDir?: string | false;
+}
+export interface DescribeOptions {
+  /** Include hidden commands and options. */
+  includeHidden?: boolean;
+}
+export interface ArgumentDescription {
+  name: string;
+  description: string;
+  required: boolean;
+  variadic: boolean;
+  defaultValue?: unknown;
+  defaultValueDescription?: string;
+  envVar?: string;
+  choices?: string[];
+}
+export interface OptionDescription {
+  flags: string;
+  name: string;
+  attributeName: string;
+  short?: string;
+  long?: string;
+  description: string;
+  /** A value must be supplied when the option is specified. */
+  required: boolean;
+  /** A value is optional when the option is specified. */
+  optional: boolean;
+  variadic: boolean;
+  negate: boolean;
+  /** The option must have a value after parsing. */
+  mandatory: boolean;
+  hidden: boolean;
+  /** The value is sensitive, so the default and preset values are masked. */
+  sensitive?: boolean;
+  defaultValue?: unknown;
+  defaultValueDescription?: string;
+  presetArg?: unknown;
+  choices?: string[];
+  envVar?: string;
+  conflictsWith: string[];
+  requires?: string[];
+  implies?: OptionValues;
+}
+export interface CommandDescription {
+  name: string;
+  aliases: string[];
+  summary: string;
+  description: string;
+  usage: string;
+  hidden: boolean;
+  arguments: ArgumentDescription[];
+  options: OptionDescription[];
+  commands: CommandDescription[];
+}
 export interface HelpContext {
   // optional parameter for .help() and .outputHelp()
   error: boolean;
@@ -620,13 +1315,25 @@ export interface OutputConfiguration {
   getOutHelpWidth?(): number;
   getErrHelpWidth?(): number;
   outputError?(str: string, write: (str: string) => void): void;
+  /** Whether to prompt for missing values, defaults to whether stdin is a TTY. */
+  isInteractive?(): boolean;
+  /** Read a line of input after displaying the prompt, without echoing the input when sensitive. */
+  readInput?(prompt: string, options: { sensitive: boolean }): Promise<string>;
 }
 
 export type AddHelpTextPosition = 'beforeAll' | 'before' | 'after' | 'afterAll';
 export type HookEvent = 'preSubcommand' | 'preAction' | 'postAction';
+export type CompletionShell = 'bash' | 'zsh' | 'fish';
+export type CompletionFn = (
+  partial: string,
+  command: CommandUnknownOpts,
+) => readonly string[] | Promise<readonly string[]>;
 // The source is a string so author can define their own too.
 export type OptionValueSource =
-  | LiteralUnion<'default' | 'config' | 'env' | 'cli' | 'implied', string>
+  | LiteralUnion<
+      'default' | 'config' | 'env' | 'cli' | 'implied' | 'prompt',
+      string
+    >
   | undefined;
 
 export type OptionValues = Record<string, unknown>;
@@ -896,6 +1603,29 @@ export class Command<Args extends any[] = [], Opts extends OptionValues = {}> {
    */
   showSuggestionAfterError(displaySuggestion?: boolean): this;
 
+  /**
+   * Report all the problems found when checking the options and arguments together in a single error,
+   * rather than stopping at the first problem. The individual errors are available in the `errors` property of the `CommanderError`.
+   */
+  aggregateErrors(aggregate?: boolean): this;
+
+  /**
+   * Prompt for the value of missing mandatory options and required command-arguments when the input is interactive,
+   * rather than displaying an error. The choices are displayed as a numbered list, and sensitive option values are not echoed.
+   *
+   * Prompting is asynchronous, so use `.parseAsync()`.
+   */
+  promptForMissing(prompt?: boolean): this;
+
+  /**
+   * Parse environment variables for boolean options as true or false values, rather than
+   * treating any value as true. By default accepts 1/true/yes/on and 0/false/no/off ignoring case,
+   * or supply the accepted values. An unrecognised value is an error.
+   *
+   * A false value from the environment variable sets `false` for a boolean option, and `true` for a negated option.
+   */
+  envBooleans(values?: BooleanValues | boolean): this;
+
   /**
    * Register callback `fn` for the command.
    *
@@ -1017,6 +1747,54 @@ export class Command<Args extends any[] = [], Opts extends OptionValues = {}> {
     InferOptions<Opts, Usage, DefaultT, CoerceT, Mandatory, PresetT, ChoicesT>
   >;
 
+  /**
+   * Read option values from a config file, with source 'config'. Option values from the command line
+   * and environment variables take precedence over values from the config file.
+   *
+   * The config keys are the option attribute names (or long option names), and subcommand options are
+   * read from a nested object with the subcommand name as key. The values are processed by the custom
+   * option processing (`.argParser()`) and choices, if any.
+   *
+   * A file path is optional and ignored if it does not exist. Pass a function to resolve the path when
+   * parsing, such as from a `--config` option. It is an error if the resolved file does not exist.
+   *
+   * JSON files are supported by default. Supply parsers for other formats keyed by file extension.
+   *
+   * @example
+   * ```ts
+   * program.configFile('.mytoolrc.json');
+   * program
+   *   .option('--config <file>')
+   *   .configFile((cmd) => cmd.opts().config, { formats: { '.yaml': YAML.parse } });
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  configFile(
+    pathOrResolver: string | ((command: CommandUnknownOpts) => string | undefined),
+    options?: ConfigFileOptions,
+  ): this;
+
+  /**
+   * Discover config files for option values, with source 'config'. The config files are read like for `.configFile()`,
+   * and when a value is in multiple files the value from the file with highest precedence is used. From lowest to highest precedence:
+   * - system: `/etc/<name>/config.json` (or `%ProgramData%\<name>\config.json` on Windows)
+   * - user: `$XDG_CONFIG_HOME/<name>/config.json` (defaulting to `~/.config/<name>/config.json`)
+   * - project: `.<name>rc.json` in the current directory and its ancestors, with nearer files taking precedence
+   * - a config file added with `.configFile()`
+   *
+   * Use `.getOptionValueConfigFile()` to find which file supplied a value.
+   *
+   * @example
+   * ```ts
+   * program.configDiscovery('mytool');
+   * program.configDiscovery('mytool', { systemDir: false, formats: { '.yaml': YAML.parse } });
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  configDiscovery(name: string, options?: ConfigDiscoveryOptions): this;
+
   /**
    * Whether to store option values as properties on command object,
    * or store separately (specify false). In both cases the option values can be accessed using .opts().
@@ -1065,11 +1843,46 @@ export class Command<Args extends any[] = [], Opts extends OptionValues = {}> {
 
   /**
    * Get source of option value. See also .optsWithGlobals().
+   *
+   * Pass `{ includeFile: true }` to also get the config file which supplied the value.
    */
   getOptionValueSourceWithGlobals<K extends keyof Opts>(
     key: K,
   ): OptionValueSource | undefined;
   getOptionValueSourceWithGlobals(key: string): OptionValueSource | undefined;
+  getOptionValueSourceWithGlobals(
+    key: string,
+    options: { includeFile: true },
+  ): { source: OptionValueSource | undefined; file: string | undefined };
+
+  /**
+   * Get the config file which supplied the option value, if the source of the option value is 'config'.
+   */
+  getOptionValueConfigFile<K extends keyof Opts>(key: K): string | undefined;
+  getOptionValueConfigFile(key: string): string | undefined;
+
+  /**
+   * Only allow one of the options to be used, and optionally require one of them.
+   * The names are the option attribute names, like for `Option.conflicts()`.
+   * The group is shown in the usage as `[--file | --url]`, or `(--file | --url)` when required.
+   *
+   * @example
+   * ```ts
+   * program.exclusiveOptions(['file', 'url', 'stdin'], { required: true });
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  exclusiveOptions(names: string[], options?: { required?: boolean }): this;
+
+  /**
+   * Require at least one of the options to be used.
+   * The names are the option attribute names, like for `Option.conflicts()`.
+   * The group is shown in the usage as `(--file | --url)`.
+   *
+   * @returns `this` command for chaining
+   */
+  requireOneOf(names: string[]): this;
 
   /**
    * Alter parsing of short flags with optional values.
@@ -1120,6 +1933,36 @@ export class Command<Args extends any[] = [], Opts extends OptionValues = {}> {
    */
   passThroughOptions(passThrough?: boolean): this;
 
+  /**
+   * Expand response file arguments like `@args.txt` into the arguments read from the file, to avoid
+   * command line length limits. The file contents are split into arguments using shell-like quoting,
+   * and may include other response files. Use a doubled prefix like `@@name` for a literal argument.
+   *
+   * Call on the program, as the arguments are expanded before parsing.
+   *
+   * @example
+   * ```ts
+   * program.responseFiles(); // same as .responseFiles('@')
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  responseFiles(prefix?: string | boolean): this;
+
+  /**
+   * Map every option to an environment variable named from the prefix and the option name,
+   * like `MYTOOL_DRY_RUN` for `--dry-run`. Subcommands without their own prefix add the
+   * command name, like `MYTOOL_DEPLOY_REGION`. An environment variable set using `Option.env()` is used instead.
+   *
+   * @example
+   * ```ts
+   * program.envPrefix('MYTOOL');
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  envPrefix(prefix: string | false): this;
+
   /**
    * Parse `argv`, setting options and invoking commands when defined.
    *
@@ -1136,6 +1979,18 @@ export class Command<Args extends any[] = [], Opts extends OptionValues = {}> {
    * @returns `this` command for chaining
    */
   parse(argv?: readonly string[], options?: ParseOptions): this;
+  /**
+   * Parse a command line string, which is split into arguments using shell-like quoting and escapes,
+   * setting options and invoking commands when defined.
+   *
+   * @example
+   * ```
+   * program.parse("deploy --env 'prod eu' --dry-run", { from: 'string' });
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  parse(commandLine: string, options: { from: 'string' }): this;
 
   /**
    * Parse `argv`, setting options and invoking commands when defined.
@@ -1155,6 +2010,44 @@ export class Command<Args extends any[] = [], Opts extends OptionValues = {}> {
    * @returns Promise
    */
   parseAsync(argv?: readonly string[], options?: ParseOptions): Promise<this>;
+  /**
+   * Parse a command line string, which is split into arguments using shell-like quoting and escapes,
+   * setting options and invoking commands when defined.
+   *
+   * @example
+   * ```
+   * await program.parseAsync("deploy --env 'prod eu' --dry-run", { from: 'string' });
+   * ```
+   *
+   * @returns Promise
+   */
+  parseAsync(commandLine: string, options: { from: 'string' }): Promise<this>;
+
+  /**
+   * Restore the command and its subcommands to the state before they were first parsed,
+   * clearing the option values, arguments, and option value sources from previous parses.
+   *
+   * Parse does this automatically, so only needed to inspect the commands between parses.
+   *
+   * @returns `this` command for chaining
+   */
+  reset(): this;
+
+  /**
+   * Parse `argv` without invoking action handlers or hooks, and without writing output or exiting.
+   * Returns the command which was parsed along with its arguments and options, and any error.
+   *
+   * Displaying help or the version are reported as errors with an exit code of 0, like when using `.exitOverride()`.
+   *
+   * @example
+   * ```
+   * const { command, args, opts, errors } = program.parseResult(['serve', '--port', '80'], { from: 'user' });
+   * ```
+   *
+   * @returns the parsed command, arguments, options, and errors
+   */
+  parseResult(argv?: readonly string[], options?: ParseOptions): ParseResult;
+  parseResult(commandLine: string, options: { from: 'string' }): ParseResult;
 
   /**
    * Parse options from `argv` removing known options,
@@ -1173,6 +2066,16 @@ export class Command<Args extends any[] = [], Opts extends OptionValues = {}> {
    */
   opts(): Opts;
 
+  /**
+   * Validate the option values after parsing using a Standard Schema validator, like those from Zod, Valibot, and ArkType,
+   * such as for rules involving several options. The option values are updated with the output of the validator.
+   *
+   * @returns `this` command for chaining
+   */
+  optsSchema<T extends OptionValues>(
+    schema: StandardSchemaV1<unknown, T>,
+  ): Command<Args, T>;
+
   /**
    * Return an object containing merged local and global option values as key-value pairs.
    */
@@ -1204,6 +2107,45 @@ export class Command<Args extends any[] = [], Opts extends OptionValues = {}> {
    */
   summary(): string;
 
+  /**
+   * Set the heading for the group in which this command is listed in the help of its parent.
+   * The default heading is `Commands`.
+   *
+   * @example
+   * ```ts
+   * program.command('login').helpGroup('Account');
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  helpGroup(heading: string): this;
+  /**
+   * Get the heading for the group in which this command is listed in the help of its parent.
+   */
+  helpGroup(): string | undefined;
+
+  /**
+   * Set the help group heading for the options added after this call, unless they have their own group.
+   *
+   * @example
+   * ```ts
+   * program
+   *   .optionsGroup('Networking')
+   *   .option('--host <name>')
+   *   .option('--port <number>');
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  optionsGroup(heading: string): this;
+
+  /**
+   * Set the help group heading for the subcommands added after this call, unless they have their own group.
+   *
+   * @returns `this` command for chaining
+   */
+  commandsGroup(heading: string): this;
+
   /**
    * Set an alias for the command.
    *
@@ -1334,6 +2276,127 @@ export class Command<Args extends any[] = [], Opts extends OptionValues = {}> {
     text: (context: AddHelpTextContext) => string,
   ): this;
 
+  /**
+   * Generate a shell completion script for this command and its subcommands.
+   *
+   * The completions are generated from the visible commands, options, and arguments
+   * as shown in the help, including the choices for option and argument values.
+   *
+   * @example
+   * ```ts
+   * fs.writeFileSync('my-program.bash', program.completionScript('bash'));
+   * ```
+   */
+  completionScript(shell: CompletionShell): string;
+
+  /**
+   * Add a subcommand which writes the shell completion script for this command to stdout.
+   *
+   * @example
+   * ```ts
+   * program.completionCommand();
+   * // my-program completion bash > my-program.bash
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  completionCommand(name?: string, description?: string): this;
+
+  /**
+   * Enable dynamic completion. The completion script calls the program with a hidden `--get-completions` flag
+   * followed by the words on the command line, and the program writes the candidates one per line and exits.
+   * This allows completing values using the `.complete()` callbacks on options and arguments.
+   *
+   * @example
+   * ```ts
+   * program
+   *   .enableDynamicCompletion()
+   *   .addOption(new Option('--branch <name>').complete(() => listBranches()));
+   * ```
+   *
+   * @returns `this` command for chaining
+   */
+  enableDynamicCompletion(enable?: boolean): this;
+
+  /**
+   * Get the completion candidates for the last word in `words`, which may be an empty string.
+   * The words before the last are the user arguments, and are scanned for subcommands and options
+   * in the same way as when parsing, but without setting any option values or calling any actions.
+   *
+   * Returns a promise if any of the completion callbacks returned a promise.
+   *
+   * @example
+   * ```ts
+   * program.getCompletions(['install', '--sa']); // ['--save']
+   * ```
+   */
+  getCompletions(words: string[]): string[] | Promise<string[]>;
+
+  /**
+   * Start an interactive session which reads command lines and parses them using this command.
+   * The lines are split into arguments using shell-like quoting, and errors are displayed without exiting.
+   * Tab completes the subcommands and options, and the previous lines are available using the arrow keys.
+   *
+   * Returns a promise which resolves when the input is closed, such as by Ctrl+D.
+   *
+   * @example
+   * ```
+   * await program.repl({ prompt: 'ops> ' });
+   * ```
+   */
+  repl(options?: ReplOptions): Promise<void>;
+
+  /**
+   * Generate man pages in roff format for this command and its visible subcommands, with one page per command.
+   * The pages are generated using the same Help methods as the help, so include the defaults, choices, and environment variables.
+   *
+   * @example
+   * ```ts
+   * for (const page of program.manPages({ source: 'my-program 1.0.0' })) {
+   *   fs.writeFileSync(path.join('man', page.name), page.content);
+   * }
+   * ```
+   */
+  manPages(options?: ManPageOptions): ManPage[];
+
+  /**
+   * Generate Markdown reference documentation for this command and its visible subcommands,
+   * including the arguments, options, and the text added using `.addHelpText()`.
+   * The subcommands are linked from the parent command. By default returns a single page,
+   * or pass `{ split: true }` for one page per command.
+   *
+   * @example
+   * ```ts
+   * for (const page of program.markdownPages({ split: true })) {
+   *   fs.writeFileSync(path.join('docs', page.name), page.content);
+   * }
+   * ```
+   */
+  markdownPages(options?: MarkdownOptions): MarkdownPage[];
+
+  /**
+   * Describe this command and its subcommands as plain data, including the
+   * aliases, arguments, and options. Hidden commands and options are not included,
+   * unless you pass `{ includeHidden: true }`.
+   *
+   * @example
+   * ```ts
+   * const description = program.describe();
+   * const names = description.commands.map((cmd) => cmd.name);
+   * ```
+   */
+  describe(options?: DescribeOptions): CommandDescription;
+
+  /**
+   * Describe this command for `JSON.stringify()`. Same as `.describe()`.
+   *
+   * @example
+   * ```ts
+   * fs.writeFileSync('cli.json', JSON.stringify(program, null, 2));
+   * ```
+   */
+  toJSON(): CommandDescription;
+
   /**
    * Add a listener (callback) for when events occur. (Implemented using EventEmitter.)
    */
@@ -1355,6 +2418,17 @@ export interface ParseOptionsResult {
   unknown: string[];
 }
 
+export interface ParseResult {
+  /** The command which was parsed, which is a subcommand when one was specified. */
+  command: CommandUnknownOpts;
+  /** The processed arguments for the command. */
+  args: unknown[];
+  /** The local option values for the command. */
+  opts: OptionValues;
+  /** The error which stopped the parse, including for displaying help or the version, or all the errors found when using `.aggregateErrors()`. */
+  errors: CommanderError[];
+}
+
 export function createCommand(name?: string): Command;
 export function createOption<Usage extends string>(
   flags: Usage,
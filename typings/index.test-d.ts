@@ -285,6 +285,28 @@ expectType<commander.Command>(
   program.addOption(new commander.Option('-s,--simple')),
 );
 
+// configFile
+expectType<commander.Command>(program.configFile('.mytoolrc.json'));
+expectType<commander.Command>(
+  program.configFile((cmd) => cmd.opts()['config'] as string | undefined),
+);
+expectType<commander.Command>(
+  program.configFile('config.yaml', {
+    formats: { '.yaml': (content: string) => ({ content }) },
+  }),
+);
+
+// configDiscovery
+expectType<commander.Command>(program.configDiscovery('mytool'));
+expectType<commander.Command>(
+  program.configDiscovery('mytool', {
+    cwd: '/project',
+    userDir: false,
+    systemDir: '/etc/mytool',
+    formats: { '.yaml': (content: string) => ({ content }) },
+  }),
+);
+
 // storeOptionsAsProperties
 expectType<commander.Command & commander.OptionValues>(
   program.storeOptionsAsProperties(),
@@ -315,6 +337,22 @@ expectType<commander.OptionValueSource | undefined>(
 expectType<commander.OptionValueSource | undefined>(
   program.getOptionValueSourceWithGlobals('example'),
 );
+expectType<{
+  source: commander.OptionValueSource | undefined;
+  file: string | undefined;
+}>(program.getOptionValueSourceWithGlobals('example', { includeFile: true }));
+
+// getOptionValueConfigFile
+expectType<string | undefined>(program.getOptionValueConfigFile('example'));
+
+// exclusiveOptions
+expectType<commander.Command>(program.exclusiveOptions(['file', 'url']));
+expectType<commander.Command>(
+  program.exclusiveOptions(['file', 'url'], { required: true }),
+);
+
+// requireOneOf
+expectType<commander.Command>(program.requireOneOf(['file', 'url']));
 
 // combineFlagAndOptionalValue
 expectType<commander.Command>(program.combineFlagAndOptionalValue());
@@ -336,6 +374,15 @@ expectType<commander.Command>(program.enablePositionalOptions(false));
 expectType<commander.Command>(program.passThroughOptions());
 expectType<commander.Command>(program.passThroughOptions(false));
 
+// responseFiles
+expectType<commander.Command>(program.responseFiles());
+expectType<commander.Command>(program.responseFiles('+'));
+expectType<commander.Command>(program.responseFiles(false));
+
+// envPrefix
+expectType<commander.Command>(program.envPrefix('MYTOOL'));
+expectType<commander.Command>(program.envPrefix(false));
+
 // parse
 expectType<commander.Command>(program.parse());
 expectType<commander.Command>(program.parse(process.argv));
@@ -348,6 +395,10 @@ expectType<commander.Command>(
 expectType<commander.Command>(program.parse(['--option'], { from: 'user' }));
 expectType<commander.Command>(program.parse(['node', 'script.js'] as const));
 
+expectType<commander.Command>(
+  program.parse("deploy --env 'prod eu'", { from: 'string' }),
+);
+
 // parseAsync, same tests as parse
 expectType<Promise<commander.Command>>(program.parseAsync());
 expectType<Promise<commander.Command>>(program.parseAsync(process.argv));
@@ -363,6 +414,23 @@ expectType<Promise<commander.Command>>(
 expectType<Promise<commander.Command>>(
   program.parseAsync(['node', 'script.js'] as const),
 );
+expectType<Promise<commander.Command>>(
+  program.parseAsync("deploy --env 'prod eu'", { from: 'string' }),
+);
+
+// reset
+expectType<commander.Command>(program.reset());
+
+// parseResult
+expectType<commander.ParseResult>(program.parseResult());
+expectType<commander.ParseResult>(
+  program.parseResult(['--option'], { from: 'user' }),
+);
+expectType<commander.ParseResult>(
+  program.parseResult('serve --port 80', { from: 'string' }),
+);
+expectType<commander.Command>(program.parseResult().command);
+expectType<commander.CommanderError[]>(program.parseResult().errors);
 
 // parseOptions (and ParseOptionsResult)
 expectType<{ operands: string[]; unknown: string[] }>(
@@ -384,6 +452,16 @@ expectType<string>(myCheeseOption.cheese);
 // @ts-expect-error Check that options strongly typed and does not allow arbitrary properties
 expectType(myCheeseOption.foo);
 
+// optsSchema
+const optionsSchema: commander.StandardSchemaV1<unknown, { port: number }> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: () => ({ value: { port: 80 } }),
+  },
+};
+expectType<commander.Command>(program.optsSchema(optionsSchema));
+
 // optsWithGlobals
 const optsWithGlobals = program.optsWithGlobals();
 expectType<commander.OptionValues>(optsWithGlobals);
@@ -409,6 +487,16 @@ expectType<commander.Command>(
 expectType<commander.Command>(program.summary('my summary'));
 expectType<string>(program.summary());
 
+// helpGroup
+expectType<commander.Command>(program.helpGroup('Management'));
+expectType<string | undefined>(program.helpGroup());
+
+// optionsGroup
+expectType<commander.Command>(program.optionsGroup('Networking'));
+
+// commandsGroup
+expectType<commander.Command>(program.commandsGroup('Account'));
+
 // alias
 expectType<commander.Command>(program.alias('my alias'));
 expectType<string>(program.alias());
@@ -530,6 +618,21 @@ expectType<commander.Command>(program.showHelpAfterError('See --help'));
 expectType<commander.Command>(program.showSuggestionAfterError());
 expectType<commander.Command>(program.showSuggestionAfterError(false));
 
+// aggregateErrors
+expectType<commander.Command>(program.aggregateErrors());
+expectType<commander.Command>(program.aggregateErrors(false));
+
+// promptForMissing
+expectType<commander.Command>(program.promptForMissing());
+expectType<commander.Command>(program.promptForMissing(false));
+
+// envBooleans
+expectType<commander.Command>(program.envBooleans());
+expectType<commander.Command>(program.envBooleans(false));
+expectType<commander.Command>(
+  program.envBooleans({ true: ['enabled'], false: ['disabled'] }),
+);
+
 // configureOutput
 expectType<commander.Command>(program.configureOutput({}));
 expectType<commander.OutputConfiguration>(program.configureOutput());
@@ -547,9 +650,60 @@ expectType<commander.Command>(
     outputError: (str: string, write: (str: string) => void) => {
       write(str);
     },
+    isInteractive: () => true,
+    readInput: (prompt: string, options: { sensitive: boolean }) =>
+      Promise.resolve(options.sensitive ? 'secret' : prompt),
   }),
 );
 
+// completionScript
+expectType<string>(program.completionScript('bash'));
+expectType<string>(program.completionScript('zsh'));
+expectType<string>(program.completionScript('fish'));
+
+// completionCommand
+expectType<commander.Command>(program.completionCommand());
+expectType<commander.Command>(
+  program.completionCommand('completions', 'output completion script'),
+);
+
+// enableDynamicCompletion
+expectType<commander.Command>(program.enableDynamicCompletion());
+expectType<commander.Command>(program.enableDynamicCompletion(false));
+
+// getCompletions
+expectType<string[] | Promise<string[]>>(program.getCompletions(['--']));
+
+// describe
+const description = program.describe();
+expectType<commander.CommandDescription>(description);
+expectType<commander.CommandDescription>(
+  program.describe({ includeHidden: true }),
+);
+expectType<string>(description.commands[0].name);
+expectType<commander.OptionDescription[]>(description.options);
+expectType<commander.ArgumentDescription[]>(description.arguments);
+expectType<string | undefined>(description.options[0].envVar);
+
+// toJSON
+expectType<commander.CommandDescription>(program.toJSON());
+
+// repl
+expectType<Promise<void>>(program.repl());
+expectType<Promise<void>>(
+  program.repl({ prompt: 'ops> ', input: process.stdin, historySize: 100 }),
+);
+
+// manPages
+expectType<commander.ManPage[]>(program.manPages());
+expectType<commander.ManPage[]>(
+  program.manPages({ section: 8, date: '2024-01-31', source: 'pm 1.0.0' }),
+);
+
+// markdownPages
+expectType<commander.MarkdownPage[]>(program.markdownPages());
+expectType<commander.MarkdownPage[]>(program.markdownPages({ split: true }));
+
 // Help
 const helper = new commander.Help();
 const helperCommand = new commander.Command();
@@ -574,6 +728,13 @@ expectType<commander.Command[]>(helper.visibleCommands(helperCommand));
 expectType<commander.Option[]>(helper.visibleOptions(helperCommand));
 expectType<commander.Option[]>(helper.visibleGlobalOptions(helperCommand));
 expectType<commander.Argument[]>(helper.visibleArguments(helperCommand));
+expectType<Map<string, commander.Option[]>>(
+  helper.groupItems(
+    helperCommand.options,
+    helper.visibleOptions(helperCommand),
+    (option) => option.helpGroupHeading ?? 'Options',
+  ),
+);
 
 expectType<number>(helper.longestSubcommandTermLength(helperCommand, helper));
 expectType<number>(helper.longestOptionTermLength(helperCommand, helper));
@@ -627,23 +788,88 @@ expectType<commander.Option>(
   }),
 );
 
+// typed parsers
+expectType<commander.Option>(baseOption.int());
+expectType<commander.Option>(baseOption.int({ min: 1, max: 65535 }));
+expectType<commander.Option>(baseOption.float({ min: 0 }));
+expectType<commander.Option>(baseOption.boolean());
+expectType<commander.Option>(baseOption.duration());
+expectType<commander.Option>(baseOption.bytes({ max: 1024 }));
+expectType<commander.Option>(baseOption.url({ protocols: ['https:'] }));
+expectType<commander.Option>(baseOption.date());
+
+// count
+expectType<commander.Option>(baseOption.count());
+
+// map
+expectType<commander.Option>(baseOption.map());
+expectType<commander.Option>(baseOption.map({ duplicates: 'collect' }));
+expectType<boolean>(baseOption.isMap());
+
+// schema
+const numberSchema: commander.StandardSchemaV1<unknown, number> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) =>
+      typeof value === 'string'
+        ? { value: Number(value) }
+        : { issues: [{ message: 'Expected a string', path: ['value'] }] },
+  },
+};
+expectType<commander.Option>(baseOption.schema(numberSchema));
+
 // makeOptionMandatory
 expectType<commander.Option>(baseOption.makeOptionMandatory());
 expectType<commander.Option>(baseOption.makeOptionMandatory(true));
 
+// helpGroup
+expectType<commander.Option>(baseOption.helpGroup('Networking'));
+expectType<string | undefined>(baseOption.helpGroupHeading);
+
 // hideHelp
 expectType<commander.Option>(baseOption.hideHelp());
 expectType<commander.Option>(baseOption.hideHelp(true));
 expectType<commander.Option>(baseOption.hideHelp(false));
 
+// sensitive
+expectType<commander.Option>(baseOption.sensitive());
+expectType<commander.Option>(baseOption.sensitive(false));
+expectType<boolean>(baseOption.secret);
+expectType<string>(baseOption.maskValue('abc'));
+
+// fromFile
+expectType<commander.Option>(baseOption.fromFile());
+expectType<commander.Option>(baseOption.fromFile('--token-path <file>'));
+
+// fileValue
+expectType<commander.Option>(baseOption.fileValue());
+expectType<commander.Option>(baseOption.fileValue('+'));
+
 // choices
 expectType<commander.Option>(baseOption.choices(['a', 'b']));
 expectType<commander.Option>(baseOption.choices(['a', 'b'] as const));
 
+// complete
+expectType<commander.Option>(baseOption.complete(() => ['a', 'b']));
+expectType<commander.Option>(
+  baseOption.complete(async (partial) => [`${partial}a`]),
+);
+
 // conflicts
 expectType<commander.Option>(baseOption.conflicts('a'));
 expectType<commander.Option>(baseOption.conflicts(['a', 'b']));
 
+// requires
+expectType<commander.Option>(baseOption.requires('a'));
+expectType<commander.Option>(baseOption.requires(['a', 'b']));
+
+// requiredIf
+expectType<commander.Option>(baseOption.requiredIf({ a: 'b' }));
+expectType<commander.Option>(
+  baseOption.requiredIf((opts) => opts['a'] === undefined),
+);
+
 // implies
 expectType<commander.Option>(
   baseOption.implies({ option: 'VALUE', colour: false }),
@@ -667,6 +893,7 @@ expectType<boolean>(baseArgument.variadic);
 expectType<any>(baseArgument.defaultValue);
 expectType<string | undefined>(baseArgument.defaultValueDescription);
 expectType<string[] | undefined>(baseArgument.argChoices);
+expectType<string | undefined>(baseArgument.envVar);
 
 // Argument methods
 
@@ -677,6 +904,9 @@ expectType<string>(baseArgument.name());
 expectType<commander.Argument>(baseArgument.default(3));
 expectType<commander.Argument>(baseArgument.default(60, 'one minute'));
 
+// env
+expectType<commander.Argument>(baseArgument.env('TARGET'));
+
 // argParser
 expectType<commander.Argument>(
   baseArgument.argParser((value: string) => parseInt(value)),
@@ -687,10 +917,25 @@ expectType<commander.Argument>(
   }),
 );
 
+// typed parsers
+expectType<commander.Argument>(baseArgument.int({ min: 0 }));
+expectType<commander.Argument>(baseArgument.float());
+expectType<commander.Argument>(baseArgument.boolean());
+expectType<commander.Argument>(baseArgument.duration());
+expectType<commander.Argument>(baseArgument.bytes());
+expectType<commander.Argument>(baseArgument.url());
+expectType<commander.Argument>(baseArgument.date());
+
 // choices
 expectType<commander.Argument>(baseArgument.choices(['a', 'b']));
 expectType<commander.Argument>(baseArgument.choices(['a', 'b'] as const));
 
+// schema
+expectType<commander.Argument>(baseArgument.schema(numberSchema));
+
+// complete
+expectType<commander.Argument>(baseArgument.complete(() => ['a', 'b']));
+
 // argRequired
 expectType<commander.Argument>(baseArgument.argRequired());
 
@@ -700,3 +945,36 @@ expectType<commander.Argument>(baseArgument.argOptional());
 // createArgument
 expectType<commander.Argument>(program.createArgument('<name>'));
 expectType<commander.Argument>(program.createArgument('<name>', 'description'));
+
+// built-in parsers
+expectType<(value: string) => number>(commander.intParser());
+expectType<(value: string) => number>(commander.intParser({ min: 1 }));
+expectType<(value: string) => number>(commander.floatParser({ max: 1 }));
+expectType<(value: string) => boolean>(commander.booleanParser());
+expectType<(value: string) => boolean>(
+  commander.booleanParser({ true: ['y'], false: ['n'] }),
+);
+expectType<(value: string) => number>(commander.durationParser());
+expectType<(value: string) => number>(commander.bytesParser());
+expectType<(value: string) => URL>(
+  commander.urlParser({ protocols: ['https:'] }),
+);
+expectType<(value: string) => Date>(commander.dateParser());
+
+// ManFormatter
+const manFormatter = new commander.ManFormatter({ section: '1' });
+expectType<string>(manFormatter.escape('--help'));
+expectType<string>(manFormatter.pageName(helperCommand));
+expectType<string>(manFormatter.formatManPage(helperCommand, helper));
+expectType<commander.ManPage[]>(
+  manFormatter.formatManPages(helperCommand, helper),
+);
+
+// MarkdownFormatter
+const markdownFormatter = new commander.MarkdownFormatter({ split: true });
+expectType<string>(markdownFormatter.pageName(helperCommand));
+expectType<string>(markdownFormatter.helpText(helperCommand, 'after'));
+expectType<string>(markdownFormatter.formatCommand(helperCommand, helper, 2));
+expectType<commander.MarkdownPage[]>(
+  markdownFormatter.formatPages(helperCommand, helper),
+);